@@ -0,0 +1,386 @@
+// electron/apiTypes.ts
+
+import { ApiRecord, ApiTypeInfo, FilterField, FilterOption } from './preload';
+import { getBaseUrl } from './settings';
+
+/**
+ * How a search endpoint is paged. Only page-number paging exists today: the page number is
+ * written to `pagePath` in the payload, and every page holds the number of results the payload
+ * asks for at the first of `pageSizePaths` it has, or `defaultPageSize` when it does not say.
+ */
+export type PaginationStrategy = {
+  strategy: 'page';
+  // Dot-separated paths into the payload
+  pagePath: string;
+  pageSizePaths: string[];
+  defaultPageSize: number;
+};
+
+/**
+ * A follow-up request made for every record found by the search, e.g. Contact Search
+ * calling viewContacts for each person to get the contact details.
+ */
+export type EnrichmentStep = {
+  endpoint: string;
+  // Field on each search result holding the ID that is sent to the enrichment endpoint
+  idField: string;
+  // Data from the search result that is kept and merged into the enriched record
+  collectContext?: (result: ApiRecord) => ApiRecord;
+  buildPayload: (ids: string[]) => ApiRecord;
+  extractResults: (data: ApiRecord) => ApiRecord[];
+  // IDs sent per request unless the job asks for another batch size, and the most allowed
+  defaultBatchSize: number;
+  maxBatchSize: number;
+  // Credits charged for every record the endpoint returns
+  creditsPerRecord: number;
+  merge?: (record: ApiRecord, context: ApiRecord) => ApiRecord;
+  timeout?: number;
+};
+
+// Searches whose results come newest first, so incremental jobs can stop at known records
+export type IncrementalStrategy = {
+  // Field on each result holding its publication date
+  datePath: string;
+};
+
+export type ApiTypeDefinition = {
+  name: string;
+  endpoint: string;
+  // Dot-separated path to the result array in the response body
+  resultPath: string;
+  pagination: PaginationStrategy;
+  transform: (result: ApiRecord) => Record<string, unknown>;
+  // Output column that identifies a record, used to upsert into SQLite. Person Search rows have
+  // no such column, so its records are only told apart with a column template holding personID.
+  idColumn: string;
+  // Field on the raw result holding the same ID, for column templates and the seen-records index
+  idPath: string;
+  enrichment?: EnrichmentStep;
+  incremental?: IncrementalStrategy;
+  // Controls of the filter builder that generates payloads for this API type
+  filters?: FilterField[];
+};
+
+// Map scoop types and topics
+export const scoopTypeMapping: { [key: string]: string } = {
+  '11': 'Open Position',
+  '21': 'Project',
+  '20': 'Painpoint',
+  '4': 'Mergers & Acquisitions',
+  '9': 'Product Launch'
+};
+
+export const scoopTopicMapping: { [key: string]: string } = {
+  '50': 'Application Development',
+  '115': 'Enterprise Architecture',
+  '226': 'Artificial Intelligence',
+  '61': 'Product Development',
+  '41': 'Spending/Investment',
+  '105': 'Contingent Workforce',
+  '116': 'Financial Planning',
+  '54': 'Request for Proposal'
+};
+
+function mappingOptions(mapping: { [key: string]: string }): FilterOption[] {
+  return Object.keys(mapping).map((value) => ({ value, label: mapping[value] }));
+}
+
+// Filters on the company of a result, shared by every search
+const companyFilters: FilterField[] = [
+  { label: 'Industry keywords', kind: 'text', key: 'industryKeywords', placeholder: 'Software, Healthcare' },
+  { label: 'Revenue ($K)', kind: 'range', key: 'revenue' },
+  { label: 'Employees', kind: 'range', key: 'employeeSize' },
+  { label: 'Countries', kind: 'text', key: 'country', placeholder: 'United States, Canada' },
+  { label: 'States', kind: 'text', key: 'state', placeholder: 'Texas, California' }
+];
+
+const personFilters: FilterField[] = [
+  { label: 'Job titles', kind: 'text', key: 'personTitle', placeholder: 'CTO, Head of Engineering' },
+  {
+    label: 'Seniority',
+    kind: 'options',
+    key: 'titleSeniority',
+    options: [
+      { value: 'C_EXECUTIVES', label: 'C-level' },
+      { value: 'VP_EXECUTIVES', label: 'VP' },
+      { value: 'DIRECTOR', label: 'Director' },
+      { value: 'MANAGER', label: 'Manager' },
+      { value: 'NON_MANAGER', label: 'Non-manager' }
+    ]
+  },
+  ...companyFilters
+];
+
+const scoopFilters: FilterField[] = [
+  { label: 'Scoop types', kind: 'options', key: 'scoopTypes', options: mappingOptions(scoopTypeMapping) },
+  { label: 'Scoop topics', kind: 'options', key: 'scoopTopics', options: mappingOptions(scoopTopicMapping) },
+  ...companyFilters
+];
+
+// Whether a JSON value is an object or array whose fields can be read
+export function isRecord(value: unknown): value is ApiRecord {
+  return typeof value === 'object' && value !== null;
+}
+
+// The object a field of a record holds, or an empty one when it holds none
+export function asRecord(value: unknown): ApiRecord {
+  return isRecord(value) ? value : {};
+}
+
+export function asList(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function transformCompany(result: ApiRecord): Record<string, unknown> {
+  const location = asRecord(result.location);
+  const topLevelIndustry = asList(result.topLevelIndustry);
+  return {
+    'Company ID': result.companyID || '',
+    'Company Name': result.companyName || '',
+    'Company Domain': result.companyDomain || '',
+    'Company Type': result.companyType || '',
+    'Company Phone': result.companyPhone || '',
+    Revenue: result.revenue || '',
+    Employees: result.employees || '',
+    'Top Level Industry 0': topLevelIndustry[0] || '',
+    'Top Level Industry 1': topLevelIndustry[1] || '',
+    Website: result.website || '',
+    'Company Description': result.companyDescription || '',
+    City: location.City || '',
+    'Country Code': location.CountryCode || '',
+    State: location.State || '',
+    Street: location.Street || '',
+    Zip: location.Zip || ''
+  };
+}
+
+function transformPerson(result: ApiRecord): Record<string, unknown> {
+  const socialUrlsParsed = asRecord(result.socialUrlsParsed);
+  const location = asRecord(result.location);
+  const employmentHistory0 = asRecord(asList(result.employmentHistory)[0]);
+  return {
+    'First Name': result.firstName || '',
+    'Last Name': result.lastName || '',
+    'Job Title': result.jobTitle || '',
+    LinkedIn: socialUrlsParsed.linkedin || '',
+    Facebook: socialUrlsParsed.facebook || '',
+    Twitter: socialUrlsParsed.twitter || '',
+    Instagram: socialUrlsParsed.instagram || '',
+    'Metro Area': location.metroArea || '',
+    City: location.City || '',
+    State: location.State || '',
+    Street: location.Street || '',
+    Zip: location.Zip || '',
+    'Country Code': location.CountryCode || '',
+    'Company Domain': result.companyDomain || '',
+    'Company Name': result.companyName || '',
+    'Company Phone': result.companyPhone || '',
+    'Company Revenue': result.companyRevenue || '',
+    'Company Website 0': employmentHistory0.companyWebsite || '',
+    'Company Description': result.companyDescription || ''
+  };
+}
+
+function transformContact(result: ApiRecord): Record<string, unknown> {
+  const companyAddress = asRecord(result.companyAddress);
+  const location = asRecord(result.location);
+  const topLevelIndustry = asList(result.topLevelIndustry);
+  return {
+    'Person ID': result.personID || '',
+    'First Name': result.firstName || '',
+    'Middle Initial': result.middleInitial || '',
+    'Last Name': result.lastName || '',
+    Company: result.title || '',
+    'Job Title': result.jobTitle || '',
+    'Person Phone': result.phone || '',
+    'Business Email': result.personalEmail || '',
+    'Person Email': result.email || '',
+    LinkedIn: result.LinkedIn || '',
+    Facebook: result.Facebook || '',
+    Twitter: result.Twitter || '',
+    Instagram: result.Instagram || '',
+    'Person Street': location.Street || '',
+    'Person City': location.City || '',
+    'Person State': location.State || '',
+    'Person Zip': location.Zip || '',
+    'Person Country': location.CountryCode || '',
+    'Person Metro Area': location.metroArea || '',
+    'Company ID': result.companyID || '',
+    'Company Name': result.companyName || '',
+    'Company Revenue': result.companyRevenue || '',
+    'Company Employees': result.companyEmployees || '',
+    'Company Domain': result.companyDomain || '',
+    'Company Website': result.website || '',
+    'Company Description': result.companyDescription || '',
+    'Company Phone': result.companyPhone || '',
+    'Company Ticker': result.companyTicker || '',
+    'Top Level Industry': topLevelIndustry[0] || '',
+    'Company Type': result.companyType || '',
+    'Company Street': companyAddress.Street || '',
+    'Company City': companyAddress.City || '',
+    'Company State': companyAddress.State || '',
+    'Company Zip': companyAddress.Zip || '',
+    'Company Country': companyAddress.CountryCode || '',
+    'Confidence Score': result.confidenceScore || ''
+  };
+}
+
+function transformScoop(result: ApiRecord): Record<string, unknown> {
+  const companyRecord = asRecord(result.companyRecord);
+  const scoopTypes = asList(asRecord(result.scoopTypes).scoopType);
+  const scoopTopics = asList(asRecord(result.scoopTopics).scoopTopic);
+
+  const scoopTypeNames = scoopTypes.map((type) => scoopTypeMapping[String(type)] || 'Unknown').join(', ');
+  const scoopTopicNames = scoopTopics.map((topic) => scoopTopicMapping[String(topic)] || 'Unknown').join(', ');
+
+  return {
+    'Published Date': result.publishedDate || '',
+    'Company ID': companyRecord.companyID || '',
+    'Company Name': companyRecord.companyName || '',
+    'Company Domain': companyRecord.companyDomain || '',
+    Website: companyRecord.website || '',
+    Description: result.description || '',
+    'Scoop ID': result.scoopId || '',
+    'Scoop Type': scoopTypeNames || '',
+    'Scoop Topic': scoopTopicNames || ''
+  };
+}
+
+const viewContactsEnrichment: EnrichmentStep = {
+  endpoint: '/anura/userData/viewContacts',
+  idField: 'personID',
+  // Social URLs are only returned by personSearch, so they are carried over to the contact
+  collectContext: (person) => asRecord(person.socialUrlsParsed),
+  buildPayload: (ids) => ({
+    contacts: ids.map((id) => ({ personId: id.toString() })),
+    creditSource: 'GROW'
+  }),
+  extractResults: (data) => asList(data.data).filter(isRecord),
+  defaultBatchSize: 10,
+  maxBatchSize: 25,
+  creditsPerRecord: 1,
+  merge: (contact, socialUrls) => ({
+    ...contact,
+    LinkedIn: socialUrls?.linkedin || '',
+    Facebook: socialUrls?.facebook || '',
+    Twitter: socialUrls?.twitter || '',
+    Instagram: socialUrls?.instagram || ''
+  }),
+  timeout: 30000
+};
+
+// The search endpoints take the page number and page size at the top of the payload; some
+// payloads name the page size "size" instead of "rpp"
+const searchPagination: PaginationStrategy = {
+  strategy: 'page',
+  pagePath: 'page',
+  pageSizePaths: ['rpp', 'size'],
+  defaultPageSize: 25
+};
+
+// The dropdown in the renderer lists API types in this order
+const apiTypes: ApiTypeDefinition[] = [
+  {
+    name: 'Company Search',
+    endpoint: '/profiles/graphql/companySearch',
+    resultPath: 'data.companySearch.data',
+    pagination: searchPagination,
+    transform: transformCompany,
+    idColumn: 'Company ID',
+    idPath: 'companyID',
+    filters: companyFilters
+  },
+  {
+    name: 'Person Search',
+    endpoint: '/profiles/graphql/personSearch',
+    resultPath: 'data.personSearch.data',
+    pagination: searchPagination,
+    transform: transformPerson,
+    idColumn: 'Person ID',
+    idPath: 'personID',
+    filters: personFilters
+  },
+  {
+    name: 'Contact Search',
+    endpoint: '/profiles/graphql/personSearch',
+    resultPath: 'data.personSearch.data',
+    pagination: searchPagination,
+    transform: transformContact,
+    idColumn: 'Person ID',
+    idPath: 'personID',
+    enrichment: viewContactsEnrichment,
+    filters: personFilters
+  },
+  {
+    name: 'Scoops Search',
+    endpoint: '/profiles/graphql/scoopsAdvancedSearch',
+    resultPath: 'data.scoopsAdvancedSearch.data',
+    pagination: searchPagination,
+    transform: transformScoop,
+    idColumn: 'Scoop ID',
+    idPath: 'scoopId',
+    incremental: { datePath: 'publishedDate' },
+    filters: scoopFilters
+  }
+];
+
+export function getApiType(name: string): ApiTypeDefinition {
+  const apiType = apiTypes.find((definition) => definition.name === name);
+  if (!apiType) {
+    throw new Error('Unknown API type.');
+  }
+  return apiType;
+}
+
+/**
+ * The API type a request URL belongs to. Person Search and Contact Search share the
+ * personSearch endpoint; the plain search, listed first, is the one returned.
+ */
+export function findApiTypeByUrl(url: string): ApiTypeDefinition | undefined {
+  let pathname: string;
+  try {
+    pathname = new URL(url).pathname;
+  } catch (error) {
+    return undefined;
+  }
+  return apiTypes.find((definition) => pathname.endsWith(definition.endpoint));
+}
+
+export function listApiTypes(): ApiTypeInfo[] {
+  return apiTypes.map(({ name, enrichment, incremental, filters }) => ({
+    name,
+    hasEnrichment: Boolean(enrichment),
+    defaultBatchSize: enrichment?.defaultBatchSize,
+    maxBatchSize: enrichment?.maxBatchSize,
+    supportsIncremental: Boolean(incremental),
+    filterFields: filters || []
+  }));
+}
+
+// Batch size a job uses for its enrichment calls, kept within what the endpoint accepts
+export function getEnrichBatchSize(enrichment: EnrichmentStep, requested?: number): number {
+  if (!requested || requested < 1) return enrichment.defaultBatchSize;
+  return Math.min(Math.floor(requested), enrichment.maxBatchSize);
+}
+
+// Output columns in order, taken from what the transform produces for an empty result
+export function getColumns(apiType: ApiTypeDefinition): string[] {
+  return Object.keys(apiType.transform(apiType.enrichment?.merge ? apiType.enrichment.merge({}, {}) : {}));
+}
+
+// Table name for this API type in a SQLite output, e.g. "company_search"
+export function getTableName(apiType: ApiTypeDefinition): string {
+  return apiType.name.toLowerCase().replace(/\W+/g, '_');
+}
+
+export function getApiUrl(endpoint: string): string {
+  return `${getBaseUrl()}${endpoint}`;
+}
+
+export function getValueByPath(source: unknown, valuePath: string): unknown {
+  return valuePath.split('.').reduce<unknown>((value, key) => (isRecord(value) ? value[key] : undefined), source);
+}
+
+export function extractResults(apiType: ApiTypeDefinition, data: ApiRecord): ApiRecord[] {
+  return asList(getValueByPath(data, apiType.resultPath)).filter(isRecord);
+}
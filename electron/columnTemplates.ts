@@ -0,0 +1,154 @@
+// electron/columnTemplates.ts
+
+import storage from 'node-persist';
+import { ApiRecord, ColumnTemplate } from './preload';
+import { ApiTypeDefinition, getApiType, getColumns, isRecord } from './apiTypes';
+
+let templates: ColumnTemplate[] = [];
+
+// One raw result per API type, remembered from the latest job, to suggest source paths
+let sampleResults: Record<string, ApiRecord> = {};
+const sampledThisSession = new Set<string>();
+
+/**
+ * The columns a job writes and how a raw result becomes a row, either the API type's
+ * built-in transform or a user-defined template.
+ */
+export type RowLayout = {
+  columns: string[];
+  idColumn: string;
+  toRow: (result: ApiRecord) => Record<string, unknown>;
+};
+
+function generateTemplateId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export async function loadColumnTemplates(): Promise<ColumnTemplate[]> {
+  templates = (await storage.getItem('columnTemplates')) || [];
+  sampleResults = (await storage.getItem('sampleResults')) || {};
+  return templates;
+}
+
+export function getColumnTemplates(): ColumnTemplate[] {
+  return templates;
+}
+
+function validateColumnTemplate(template: ColumnTemplate) {
+  const apiType = getApiType(template.apiType);
+  if (!template.name.trim()) {
+    throw new Error('The template needs a name.');
+  }
+  if (template.columns.length === 0) {
+    throw new Error('The template needs at least one column.');
+  }
+  const headers = template.columns.map((column) => column.header.trim());
+  if (headers.some((header) => !header) || template.columns.some((column) => !column.path.trim())) {
+    throw new Error('Every column needs a name and a source path.');
+  }
+  const duplicate = headers.find((header, index) => headers.indexOf(header) !== index);
+  if (duplicate) {
+    throw new Error(`The column "${duplicate}" appears more than once.`);
+  }
+  // The ID is what SQLite outputs upsert on
+  if (!template.columns.some((column) => column.path.trim() === apiType.idPath)) {
+    throw new Error(`The template must include the record ID (${apiType.idPath}).`);
+  }
+}
+
+export async function saveColumnTemplate(template: ColumnTemplate): Promise<ColumnTemplate> {
+  validateColumnTemplate(template);
+  const saved: ColumnTemplate = {
+    ...template,
+    id: template.id || generateTemplateId(),
+    name: template.name.trim(),
+    columns: template.columns.map((column) => ({ header: column.header.trim(), path: column.path.trim() }))
+  };
+  templates = templates.some((existing) => existing.id === saved.id)
+    ? templates.map((existing) => (existing.id === saved.id ? saved : existing))
+    : [...templates, saved];
+  await storage.setItem('columnTemplates', templates);
+  return saved;
+}
+
+export async function deleteColumnTemplate(id: string) {
+  templates = templates.filter((template) => template.id !== id);
+  await storage.setItem('columnTemplates', templates);
+}
+
+/**
+ * Reads a path such as "employmentHistory.*.companyWebsite", where "*" stands for every
+ * entry of an array.
+ */
+function collectValue(value: unknown, segments: string[]): unknown {
+  if (segments.length === 0 || value == null) return value;
+  const [segment, ...rest] = segments;
+  if (segment === '*') {
+    return Array.isArray(value) ? value.map((item) => collectValue(item, rest)) : undefined;
+  }
+  return isRecord(value) ? collectValue(value[segment], rest) : undefined;
+}
+
+// Lists of values are joined with "; " so values containing commas stay readable; lists of
+// objects are written as JSON
+function formatValue(value: unknown): string {
+  if (value == null) return '';
+  if (Array.isArray(value) && !value.some((item) => item && typeof item === 'object' && !Array.isArray(item))) {
+    return value
+      .map(formatValue)
+      .filter((item) => item !== '')
+      .join('; ');
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export function getTemplateValue(result: ApiRecord, valuePath: string): string {
+  return formatValue(collectValue(result, valuePath.split('.')));
+}
+
+export function getRowLayout(apiType: ApiTypeDefinition, template?: ColumnTemplate): RowLayout {
+  if (!template) {
+    return { columns: getColumns(apiType), idColumn: apiType.idColumn, toRow: apiType.transform };
+  }
+  const idColumn = template.columns.find((column) => column.path === apiType.idPath);
+  return {
+    columns: template.columns.map((column) => column.header),
+    idColumn: idColumn ? idColumn.header : apiType.idColumn,
+    toRow: (result) =>
+      template.columns.reduce(
+        (row, column) => ({ ...row, [column.header]: getTemplateValue(result, column.path) }),
+        {} as Record<string, string>
+      )
+  };
+}
+
+/**
+ * Keeps the first raw result a job sees for each API type, so the template editor can
+ * offer the fields the API actually returns.
+ */
+export async function rememberSampleResult(apiType: string, result: ApiRecord) {
+  if (sampledThisSession.has(apiType) || !result) return;
+  sampledThisSession.add(apiType);
+  sampleResults = { ...sampleResults, [apiType]: result };
+  await storage.setItem('sampleResults', sampleResults);
+}
+
+function listPaths(value: unknown, prefix: string): string[] {
+  if (Array.isArray(value)) {
+    const first = value.find((item) => item != null);
+    // A list of objects can be written whole or one field from every entry
+    if (first && typeof first === 'object') return [prefix, ...listPaths(first, `${prefix}.*`)];
+    return [prefix];
+  }
+  if (value && typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, item]) => listPaths(item, prefix ? `${prefix}.${key}` : key));
+  }
+  return prefix ? [prefix] : [];
+}
+
+export function listSourcePaths(apiType: string): string[] {
+  const definition = getApiType(apiType);
+  const paths = sampleResults[apiType] ? listPaths(sampleResults[apiType], '') : [];
+  return paths.includes(definition.idPath) ? paths : [definition.idPath, ...paths];
+}
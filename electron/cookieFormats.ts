@@ -0,0 +1,195 @@
+// electron/cookieFormats.ts
+
+import { BrowserCookie, CookieFormat, CookieParseResult } from './preload';
+
+// Cookies every request needs; the headers are built from them
+export const REQUIRED_COOKIES = ['userId', 'ziaccesstoken', 'ziid', 'zisession'];
+
+const formatNames: Record<CookieFormat, string> = {
+  json: 'cookie JSON (EditThisCookie / Cookie-Editor)',
+  har: 'HAR file',
+  netscape: 'Netscape cookies.txt',
+  header: 'Cookie header'
+};
+
+// A cookie as browser extensions and HAR files write it, before it is checked
+type JsonCookie = {
+  name?: unknown;
+  value?: unknown;
+  domain?: string;
+  expirationDate?: unknown;
+  expires?: unknown;
+};
+
+// The parts of a request in a HAR file that carry its cookies
+export type HarRequest = {
+  cookies?: JsonCookie[];
+  headers?: { name?: string; value?: string }[];
+};
+
+export function describeCookieFormat(format: CookieFormat): string {
+  return formatNames[format];
+}
+
+// "Cookie: a=1; b=2" or just "a=1; b=2"
+export function parseCookieHeader(header: string): BrowserCookie[] {
+  return header
+    .replace(/^\s*cookie\s*:/i, '')
+    .split(';')
+    .map((pair) => pair.trim())
+    .filter((pair) => pair.includes('='))
+    .map((pair) => {
+      const separator = pair.indexOf('=');
+      return { name: pair.slice(0, separator).trim(), value: pair.slice(separator + 1).trim() };
+    });
+}
+
+// Tab-separated: domain, include subdomains, path, secure, expiry (seconds, 0 for session), name, value
+function parseNetscape(text: string): BrowserCookie[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/^#HttpOnly_/, ''))
+    .filter((line) => line.trim() !== '' && !line.startsWith('#'))
+    .map((line) => line.split('\t'))
+    .filter((fields) => fields.length >= 7)
+    .map(([domain, , , , expiry, name, ...value]) => ({
+      name,
+      value: value.join('\t').trim(),
+      domain,
+      expirationDate: Number(expiry) > 0 ? Number(expiry) : undefined
+    }));
+}
+
+// EditThisCookie and Cookie-Editor export an array; some tools wrap it as { cookies: [...] }
+function fromJsonCookie(cookie: JsonCookie | null): BrowserCookie {
+  if (!cookie || typeof cookie.name !== 'string' || cookie.value === undefined) {
+    throw new Error('Every cookie in the JSON needs a "name" and a "value".');
+  }
+  let expirationDate: number | undefined;
+  if (typeof cookie.expirationDate === 'number') {
+    expirationDate = cookie.expirationDate;
+  } else if (typeof cookie.expires === 'number' && cookie.expires > 0) {
+    expirationDate = cookie.expires;
+  } else if (typeof cookie.expires === 'string' && !Number.isNaN(Date.parse(cookie.expires))) {
+    expirationDate = Date.parse(cookie.expires) / 1000;
+  }
+  return { name: cookie.name, value: String(cookie.value), domain: cookie.domain, expirationDate };
+}
+
+// Cookies of one request in a HAR file: its cookie list, or else its Cookie header
+export function harRequestCookies(request: HarRequest | undefined): BrowserCookie[] {
+  const { cookies, headers } = request || {};
+  if (Array.isArray(cookies) && cookies.length > 0) {
+    return cookies.map(fromJsonCookie);
+  }
+  const header = (headers || []).find((candidate) => /^cookie$/i.test(candidate?.name || ''));
+  return header ? parseCookieHeader(String(header.value)) : [];
+}
+
+/**
+ * Cookies sent with the captured requests. The last request that carried the session cookies
+ * wins, so a HAR recorded across a login uses the fresh session.
+ */
+function parseHar(entries: { request?: HarRequest }[]): BrowserCookie[] {
+  const requests = entries.map((entry) => harRequestCookies(entry?.request));
+  const withSession = requests.filter((cookies) => cookies.some((cookie) => cookie.name === 'ziaccesstoken'));
+  if (withSession.length > 0) {
+    return withSession[withSession.length - 1];
+  }
+  return requests.reduce((merged, cookies) => [...merged, ...cookies], []);
+}
+
+function parseJson(text: string): { format: CookieFormat; cookies: BrowserCookie[] } {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`The cookies look like JSON but could not be parsed: ${(error as Error).message}`);
+  }
+  if (Array.isArray(data)) {
+    return { format: 'json', cookies: data.map(fromJsonCookie) };
+  }
+  const { log, cookies } = (data ?? {}) as { log?: { entries?: unknown }; cookies?: unknown };
+  const entries = log?.entries;
+  if (Array.isArray(entries)) {
+    return { format: 'har', cookies: parseHar(entries) };
+  }
+  if (Array.isArray(cookies)) {
+    return { format: 'json', cookies: cookies.map(fromJsonCookie) };
+  }
+  throw new Error('The JSON is neither a list of cookies nor a HAR file.');
+}
+
+/**
+ * Reads cookies pasted in any supported format: cookie JSON, a HAR file, Netscape
+ * cookies.txt or a raw Cookie header. The format is detected from the text.
+ */
+export function parseCookieText(text: string): { format: CookieFormat; cookies: BrowserCookie[] } {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new Error('Please paste the cookies.');
+  }
+  const looksLikeNetscape =
+    /^# (Netscape )?HTTP Cookie File/i.test(trimmed) ||
+    trimmed.split(/\r?\n/).some((line) => line.split('\t').length >= 7);
+  let parsed: { format: CookieFormat; cookies: BrowserCookie[] };
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    parsed = parseJson(trimmed);
+  } else if (looksLikeNetscape) {
+    parsed = { format: 'netscape', cookies: parseNetscape(trimmed) };
+  } else {
+    parsed = { format: 'header', cookies: parseCookieHeader(trimmed) };
+  }
+  if (parsed.cookies.length === 0) {
+    throw new Error(`No cookies were found in the ${describeCookieFormat(parsed.format)}.`);
+  }
+  return parsed;
+}
+
+/**
+ * Cookies of a job: the list saved with it, or text in any supported format (jobs queued
+ * before the formats were detected keep their JSON list).
+ */
+export function toCookieList(cookies: unknown): BrowserCookie[] {
+  if (typeof cookies === 'string') {
+    return parseCookieText(cookies).cookies;
+  }
+  if (Array.isArray(cookies)) {
+    return cookies.map(fromJsonCookie);
+  }
+  throw new Error('The cookies must be a list or text.');
+}
+
+export function findMissingCookies(cookies: BrowserCookie[]): string[] {
+  return REQUIRED_COOKIES.filter((name) => !cookies.some((cookie) => cookie.name === name && cookie.value));
+}
+
+export function missingCookiesMessage(missing: string[]): string {
+  return `Missing required ${missing.length === 1 ? 'cookie' : 'cookies'}: ${missing.join(', ')}.`;
+}
+
+// The session ends with the first required cookie to expire
+export function getSessionExpiry(cookies: BrowserCookie[]): string | undefined {
+  const expiries = cookies
+    .filter((cookie) => REQUIRED_COOKIES.includes(cookie.name) && cookie.expirationDate)
+    .map((cookie) => Number(cookie.expirationDate) * 1000);
+  return expiries.length > 0 ? new Date(Math.min(...expiries)).toISOString() : undefined;
+}
+
+// Parse result for the cookie input of the renderer; never throws
+export function inspectCookieText(text: string): CookieParseResult {
+  try {
+    const { format, cookies } = parseCookieText(text);
+    const missing = findMissingCookies(cookies);
+    return {
+      format,
+      formatName: describeCookieFormat(format),
+      cookies,
+      missing,
+      expiresAt: getSessionExpiry(cookies),
+      error: missing.length > 0 ? missingCookiesMessage(missing) : undefined
+    };
+  } catch (error) {
+    return { cookies: [], missing: REQUIRED_COOKIES, error: (error as Error).message };
+  }
+}
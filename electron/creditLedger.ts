@@ -0,0 +1,91 @@
+// electron/creditLedger.ts
+
+import storage from 'node-persist';
+import { CreditEstimate, CreditLedger, ScrapeData } from './preload';
+import { getApiType } from './apiTypes';
+import { getSettings } from './settings';
+
+let ledger: CreditLedger = { jobs: {}, days: {} };
+
+// Local calendar day, e.g. "2024-06-30"
+function dayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export async function loadCreditLedger(): Promise<CreditLedger> {
+  ledger = (await storage.getItem('creditLedger')) || { jobs: {}, days: {} };
+  return ledger;
+}
+
+export function getCreditLedger(): CreditLedger {
+  return ledger;
+}
+
+export async function recordCredits(jobId: string, scrapeData: ScrapeData, credits: number) {
+  if (credits <= 0) return;
+  const now = new Date();
+  const today = dayKey(now);
+  const job = ledger.jobs[jobId] || {
+    apiType: scrapeData.apiType,
+    savePath: scrapeData.savePath,
+    credits: 0,
+    firstSpentAt: now.toISOString(),
+    lastSpentAt: now.toISOString()
+  };
+  ledger = {
+    jobs: { ...ledger.jobs, [jobId]: { ...job, credits: job.credits + credits, lastSpentAt: now.toISOString() } },
+    days: { ...ledger.days, [today]: (ledger.days[today] || 0) + credits }
+  };
+  await storage.setItem('creditLedger', ledger);
+}
+
+export function getJobCredits(jobId: string): number {
+  return ledger.jobs[jobId]?.credits || 0;
+}
+
+// Credits spent in the current calendar month
+export function getMonthCredits(): number {
+  const month = dayKey(new Date()).slice(0, 7);
+  return Object.keys(ledger.days)
+    .filter((day) => day.startsWith(month))
+    .reduce((total, day) => total + ledger.days[day], 0);
+}
+
+/**
+ * Upper bound of the credits a job will spend: every requested record is enriched once.
+ * Search-only API types do not spend credits.
+ */
+export function estimateCredits(scrapeData: ScrapeData): CreditEstimate {
+  const { enrichment } = getApiType(scrapeData.apiType);
+  const { monthlyCreditCap, creditConfirmThreshold } = getSettings();
+  return {
+    credits: enrichment ? scrapeData.totalResults * enrichment.creditsPerRecord : 0,
+    monthSpent: getMonthCredits(),
+    monthlyCap: monthlyCreditCap,
+    confirmThreshold: creditConfirmThreshold
+  };
+}
+
+/**
+ * Credits the job may still spend before it reaches its own or this month's cap, and which
+ * cap is the limit. `remaining` is Infinity when no cap is set.
+ */
+export function getCreditAllowance(jobId: string, scrapeData: ScrapeData): { remaining: number; limit: string } {
+  const { monthlyCreditCap } = getSettings();
+  const jobSpent = getJobCredits(jobId);
+  const monthSpent = getMonthCredits();
+  const jobRemaining = scrapeData.creditCap ? scrapeData.creditCap - jobSpent : Infinity;
+  const monthRemaining = monthlyCreditCap ? monthlyCreditCap - monthSpent : Infinity;
+  if (jobRemaining <= monthRemaining) {
+    return {
+      remaining: Math.max(jobRemaining, 0),
+      limit: `The job has spent ${jobSpent} of its ${scrapeData.creditCap} credit cap.`
+    };
+  }
+  return {
+    remaining: Math.max(monthRemaining, 0),
+    limit: `${monthSpent} of the ${monthlyCreditCap} credits allowed this month have been spent.`
+  };
+}
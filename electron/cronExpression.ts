@@ -0,0 +1,109 @@
+// electron/cronExpression.ts
+
+/**
+ * A parsed five-field cron expression ("minute hour day-of-month month day-of-week"), with
+ * the values each field allows.
+ */
+export type CronExpression = {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  months: number[];
+  daysOfWeek: number[];
+  // Standard cron: when both day fields are restricted, a day matching either one runs. As in
+  // Vixie cron, a field starting with "*" (e.g. "*/2") does not count as restricted.
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+};
+
+const fieldRanges: [string, number, number][] = [
+  ['minute', 0, 59],
+  ['hour', 0, 23],
+  ['day of month', 1, 31],
+  ['month', 1, 12],
+  ['day of week', 0, 7]
+];
+
+// "*", "5", "1-5", "*/15", "0-30/10" and comma-separated lists of those
+function parseField(field: string, [name, min, max]: [string, number, number]): number[] {
+  const values = new Set<number>();
+  field.split(',').forEach((part) => {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid ${name} "${part}" in the cron expression.`);
+    }
+    const from = match[1] === '*' ? min : Number(match[2]);
+    let to = from;
+    if (match[1] === '*') {
+      to = max;
+    } else if (match[3] !== undefined) {
+      to = Number(match[3]);
+    } else if (match[4] !== undefined) {
+      to = max;
+    }
+    const step = match[4] === undefined ? 1 : Number(match[4]);
+    if (from < min || to > max || from > to || step < 1) {
+      throw new Error(`The ${name} "${part}" in the cron expression is out of range (${min}-${max}).`);
+    }
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  });
+  return [...values].sort((a, b) => a - b);
+}
+
+export function parseCron(expression: string): CronExpression {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('A cron expression has five fields: minute, hour, day of month, month and day of week.');
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseField(field, fieldRanges[index])
+  );
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    // 7 is Sunday as well
+    daysOfWeek: [...new Set(daysOfWeek.map((day) => day % 7))],
+    anyDayOfMonth: fields[2].startsWith('*'),
+    anyDayOfWeek: fields[4].startsWith('*')
+  };
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.includes(date.getDate());
+  const dayOfWeek = cron.daysOfWeek.includes(date.getDay());
+  if (cron.anyDayOfMonth || cron.anyDayOfWeek) return dayOfMonth && dayOfWeek;
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * The first local time after `after` the expression matches, searching up to four years
+ * ahead (enough for "29 February"). Returns null for expressions that never match.
+ */
+export function nextCronTime(expression: string, after: Date): Date | null {
+  const cron = parseCron(expression);
+  const time = new Date(after);
+  time.setSeconds(0, 0);
+  time.setMinutes(time.getMinutes() + 1);
+  const limit = after.getTime() + 4 * 366 * 24 * 60 * 60 * 1000;
+
+  while (time.getTime() <= limit) {
+    if (!cron.months.includes(time.getMonth() + 1)) {
+      time.setMonth(time.getMonth() + 1, 1);
+      time.setHours(0, 0);
+    } else if (!matchesDay(cron, time)) {
+      time.setDate(time.getDate() + 1);
+      time.setHours(0, 0);
+    } else if (!cron.hours.includes(time.getHours())) {
+      time.setHours(time.getHours() + 1, 0);
+    } else if (!cron.minutes.includes(time.getMinutes())) {
+      time.setMinutes(time.getMinutes() + 1);
+    } else {
+      return time;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,68 @@
+// electron/failureLog.ts
+
+import fs from 'fs';
+import { FailedRecord } from './preload';
+
+/**
+ * The records and search pages of an output that could not be fetched. Entries are removed
+ * once a later run (usually "Retry failed") fetches them.
+ */
+export type FailureLog = {
+  record: (failure: Omit<FailedRecord, 'failedAt'>) => void;
+  resolve: (kind: FailedRecord['kind'], key: string | number) => void;
+  count: () => number;
+  save: () => Promise<void>;
+};
+
+// Failures are kept next to the output, e.g. "contacts.csv.failures.json"
+export function getFailuresPath(savePath: string): string {
+  return `${savePath}.failures.json`;
+}
+
+function failureKey(kind: FailedRecord['kind'], key: string | number | undefined): string {
+  return `${kind}:${key}`;
+}
+
+export async function readFailures(savePath: string): Promise<FailedRecord[]> {
+  const filePath = getFailuresPath(savePath);
+  if (!fs.existsSync(filePath)) return [];
+  return JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+}
+
+/**
+ * Opens the failures of an output. A job that replaces its output starts with none; a job
+ * that appends to it (or is resumed) keeps the failures of the earlier runs.
+ */
+export async function openFailureLog(savePath: string, append: boolean): Promise<FailureLog> {
+  const entries = new Map<string, FailedRecord>();
+  if (append) {
+    (await readFailures(savePath)).forEach((failure) => {
+      entries.set(failureKey(failure.kind, failure.kind === 'page' ? failure.page : failure.id), failure);
+    });
+  }
+  let dirty = !append;
+
+  return {
+    record: (failure) => {
+      const key = failureKey(failure.kind, failure.kind === 'page' ? failure.page : failure.id);
+      entries.set(key, { ...failure, failedAt: new Date().toISOString() });
+      dirty = true;
+    },
+    resolve: (kind, key) => {
+      if (entries.delete(failureKey(kind, key))) {
+        dirty = true;
+      }
+    },
+    count: () => entries.size,
+    save: async () => {
+      if (!dirty) return;
+      const filePath = getFailuresPath(savePath);
+      if (entries.size > 0) {
+        await fs.promises.writeFile(filePath, JSON.stringify([...entries.values()], null, 2));
+      } else {
+        await fs.promises.rm(filePath, { force: true });
+      }
+      dirty = false;
+    }
+  };
+}
@@ -0,0 +1,19 @@
+// electron/filterFields.ts
+//
+// Helpers for payload filter fields, shared by the main process and the renderer's filter
+// builder. The renderer bundles this module, so it must not import anything from Node.
+
+import { FilterField } from './preload';
+
+// Payload keys a field writes: a range writes a minimum and a maximum
+export function fieldKeys(field: FilterField): string[] {
+  return field.kind === 'range' ? [`${field.key}Min`, `${field.key}Max`] : [field.key];
+}
+
+// "a, b,,c" -> ['a', 'b', 'c']
+export function splitList(text: string): string[] {
+  return text
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
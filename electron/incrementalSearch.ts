@@ -0,0 +1,133 @@
+// electron/incrementalSearch.ts
+
+import crypto from 'crypto';
+import storage from 'node-persist';
+import { ApiRecord, IncrementalCursor, JobCheckpoint, ScrapeData } from './preload';
+import { ApiTypeDefinition, getApiType, getValueByPath } from './apiTypes';
+import { withoutPage } from './pagination';
+
+// Newest record captured per saved payload, keyed by payloadKey()
+type CursorIndex = Record<string, IncrementalCursor>;
+
+type NewestCaptured = NonNullable<JobCheckpoint['newestCaptured']>;
+
+/**
+ * What an incremental run does with a result: write it ('new'), leave it out because an
+ * earlier run captured it ('known'), or stop paging because everything from here on is older.
+ */
+export type IncrementalVerdict = 'new' | 'known' | 'stop';
+
+export type IncrementalRun = {
+  check: (result: ApiRecord) => IncrementalVerdict;
+  // Called when paging ran out of results
+  lastPageReached: () => void;
+  // Newest record the run captured, for the checkpoint, so a resumed run still moves the cursor to it
+  newestCaptured: () => NewestCaptured | undefined;
+  // Moves the cursor forward once the run completed; resolves false when it did not page far enough
+  complete: () => Promise<boolean>;
+};
+
+async function loadCursors(): Promise<CursorIndex> {
+  return (await storage.getItem('incrementalCursors')) || {};
+}
+
+// Keys are sorted, so payloads that differ only in key order are the same search
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === 'object') {
+    return Object.entries(value)
+      .sort(([a], [b]) => (a < b ? -1 : 1))
+      .reduce((copy, [key, item]) => ({ ...copy, [key]: sortKeys(item) }), {});
+  }
+  return value;
+}
+
+// The page number changes with every request, so it is not part of what identifies a payload
+export function payloadKey(apiType: string, payload: ApiRecord): string {
+  return crypto
+    .createHash('sha1')
+    .update(JSON.stringify([apiType, sortKeys(withoutPage(getApiType(apiType), payload))]))
+    .digest('hex');
+}
+
+export async function getIncrementalCursor(apiType: string, payload: ApiRecord): Promise<IncrementalCursor | null> {
+  return (await loadCursors())[payloadKey(apiType, payload)] || null;
+}
+
+export async function resetIncrementalCursor(apiType: string, payload: ApiRecord) {
+  const cursors = await loadCursors();
+  delete cursors[payloadKey(apiType, payload)];
+  await storage.setItem('incrementalCursors', cursors);
+}
+
+// The newest record so far after capturing one published at `date`
+function capture(newest: NewestCaptured | undefined, date: string, id: string): NewestCaptured {
+  const time = Date.parse(date);
+  if (!newest || time > Date.parse(newest.date)) {
+    return { date, ids: [id] };
+  }
+  if (time === Date.parse(newest.date) && !newest.ids.includes(id)) {
+    return { ...newest, ids: [...newest.ids, id] };
+  }
+  return newest;
+}
+
+/**
+ * Starts an incremental run of a search whose results come newest first, continuing from the
+ * newest record captured before the checkpoint was saved. The cursor only moves once paging
+ * reached the old cursor, the stop date or the last page: a run cut off by its number of
+ * results leaves a gap the next run still has to fetch.
+ */
+export async function openIncrementalRun(
+  definition: ApiTypeDefinition,
+  scrapeData: ScrapeData,
+  state: JobCheckpoint
+): Promise<IncrementalRun | null> {
+  const { incremental } = definition;
+  if (!incremental || !scrapeData.incremental) return null;
+
+  const key = payloadKey(scrapeData.apiType, scrapeData.payload);
+  const cursor = (await loadCursors())[key];
+  const cursorTime = cursor ? Date.parse(cursor.newestDate) : null;
+  const stopBefore = scrapeData.stopBeforeDate ? new Date(`${scrapeData.stopBeforeDate}T00:00:00`).getTime() : null;
+  let pagedThrough = false;
+  let { newestCaptured } = state;
+
+  return {
+    check: (result) => {
+      const date = String(getValueByPath(result, incremental.datePath) ?? '');
+      const time = Date.parse(date);
+      const id = String(getValueByPath(result, definition.idPath) ?? '');
+      // Without a usable date the result cannot be placed, so it is written
+      if (Number.isNaN(time)) return 'new';
+      if ((stopBefore !== null && time < stopBefore) || (cursorTime !== null && time < cursorTime)) {
+        pagedThrough = true;
+        return 'stop';
+      }
+      if (cursor && cursorTime !== null) {
+        // Records published at the same moment as the newest captured one may be new or not
+        if (time === cursorTime && cursor.ids.includes(id)) return 'known';
+      }
+      newestCaptured = capture(newestCaptured, date, id);
+      return 'new';
+    },
+    lastPageReached: () => {
+      pagedThrough = true;
+    },
+    newestCaptured: () => newestCaptured,
+    complete: async () => {
+      const newest = newestCaptured;
+      if (!pagedThrough) return false;
+      if (!newest) return true;
+      const cursors = await loadCursors();
+      const previous = cursors[key];
+      const ids =
+        previous && Date.parse(previous.newestDate) === Date.parse(newest.date)
+          ? [...new Set([...previous.ids, ...newest.ids])]
+          : newest.ids;
+      cursors[key] = { newestDate: newest.date, ids, updatedAt: new Date().toISOString() };
+      await storage.setItem('incrementalCursors', cursors);
+      return true;
+    }
+  };
+}
@@ -4,11 +4,104 @@ import { app, BrowserWindow, ipcMain, nativeTheme, shell, dialog, powerMonitor }
 import { join } from 'path';
 import path from 'node:path';
 import isDev from 'electron-is-dev';
-import axios from 'axios';
+import axios, { AxiosError } from 'axios';
 import fs from 'fs';
-import { stringify } from 'csv-stringify';
-// import storage from 'node-persist'; // Using node-persist instead of electron-store
-import { ScrapeData } from './preload';
+import storage from 'node-persist'; // Using node-persist instead of electron-store
+import {
+  ApiRecord,
+  BrowserCookie,
+  ColumnTemplate,
+  CookieRenewalRequest,
+  FailedRecord,
+  FilterValues,
+  JobCheckpoint,
+  JobPreset,
+  JobSchedule,
+  JobStatus,
+  QueuedJob,
+  ScrapeData,
+  SessionTestResult
+} from './preload';
+import {
+  addJob,
+  canRetryFailures,
+  canRetryJob,
+  getJob,
+  getJobs,
+  loadQueue,
+  moveJob,
+  moveJobToFront,
+  nextPendingJob,
+  removeJob,
+  saveQueue,
+  updateJob,
+  updatePendingCookies
+} from './jobQueue';
+import {
+  ApiTypeDefinition,
+  EnrichmentStep,
+  extractResults,
+  getApiType,
+  getApiUrl,
+  getEnrichBatchSize,
+  getTableName,
+  getValueByPath,
+  listApiTypes
+} from './apiTypes';
+import {
+  RowLayout,
+  deleteColumnTemplate,
+  getColumnTemplates,
+  getRowLayout,
+  listSourcePaths,
+  loadColumnTemplates,
+  rememberSampleResult,
+  saveColumnTemplate
+} from './columnTemplates';
+import { OutputSink, inspectOutputFile, openOutputSink, saveDialogFilters } from './outputSinks';
+import { findMissingCookies, inspectCookieText, missingCookiesMessage, toCookieList } from './cookieFormats';
+import { FailureLog, openFailureLog, readFailures } from './failureLog';
+import {
+  deleteJobPreset,
+  duplicateJobPreset,
+  exportJobPresets,
+  getJobPresets,
+  importJobPresets,
+  loadJobPresets,
+  saveJobPreset
+} from './jobPresets';
+import { IncrementalRun, getIncrementalCursor, openIncrementalRun, resetIncrementalCursor } from './incrementalSearch';
+import { estimateCredits, getCreditAllowance, getCreditLedger, loadCreditLedger, recordCredits } from './creditLedger';
+import { ProgressPosition, ProgressTracker, createProgressTracker } from './progressTracker';
+import { loadRequestBudget, nextRequestSlot, recordRequest } from './requestBudget';
+import { isRetryable, retryDelay } from './retryPolicy';
+import { closeJobLog, getLogEntries, log, onLogEntry, openJobLog } from './runLog';
+import {
+  ResponseArchive,
+  hasResponseArchive,
+  openResponseArchive,
+  rebuildExport,
+  removeResponseArchive
+} from './responseArchive';
+import {
+  RunComparison,
+  advanceSchedule,
+  compareWithPreviousRun,
+  deleteSchedule,
+  dueSchedules,
+  getSchedule,
+  getSchedules,
+  loadSchedules,
+  recordScheduleRun,
+  saveSchedule,
+  updateScheduleCookies
+} from './schedules';
+import { checkPagination, findPaginationProblem, getFirstPage, getPageSize, withPage } from './pagination';
+import { applyPayloadFilters, readPayloadFilters } from './payloadFilters';
+import importJob from './requestImport';
+import { estimateSession } from './sessionCheck';
+import { SeenRecords, clearSeenRecords, countSeenRecords, openSeenRecords } from './seenRecords';
+import { getBaseUrl, getSettings, loadSettings, saveSettings } from './settings';
 
 let mainWindow: BrowserWindow | null = null;
 let isScraping = false;
@@ -17,31 +110,81 @@ let scrapeData: ScrapeData | null = null;
 let wasStopped = false;
 let delayCancel: (() => void) | null = null;
 
-// let currentPage = 0;
-// let resultsCollected = 0;
+// Queue runner state: `haltQueue` is set by "Stop" so the remaining jobs stay pending,
+// while cancelling a single running job lets the queue move on to the next one.
+let queueRunning = false;
+let haltQueue = false;
+let jobError: string | null = null;
+// Set when the job was paused by a system suspend rather than by the user
+let autoPaused = false;
+// Ends the wait of a job blocked by an expired session: true once new cookies arrived, or the
+// error that made the new cookies unusable, which fails the job
+let cookieRenewal: ((renewed: boolean | Error) => void) | null = null;
+
+// Progress of the running job, persisted after every page / viewContacts call so an
+// interrupted run can continue where it stopped.
+let checkpoint: JobCheckpoint | null = null;
+// Raw responses of the running job, when it was started with archiving turned on
+let archive: ResponseArchive | null = null;
+// Request counts and rates of the running job, reported with every progress update
+let progress: ProgressTracker | null = null;
+// Records and pages the running job could not fetch, and how many requests failed in a row
+let failures: FailureLog | null = null;
+let consecutiveFailures = 0;
+
+// Requests failing one after another point at the job or the service rather than single records
+const MAX_CONSECUTIVE_FAILURES = 3;
+
+// How often due schedules are looked for while the app is open
+const SCHEDULE_CHECK_INTERVAL_MS = 30 * 1000;
+
+// Initialize node-persist storage
+async function initializeStorage() {
+  await storage.init({ dir: path.join(app.getPath('userData'), 'scraper-app-state') });
+}
 
-// // Initialize node-persist storage
-// async function initializeStorage() {
-//   await storage.init({ dir: path.join(app.getPath('userData'), 'scraper-app-state') });
-// }
+// Every job keeps its own checkpoint, so running one job never overwrites the resume point of another
+function checkpointKey(jobId: string): string {
+  return `checkpoint:${jobId}`;
+}
 
-// async function loadAppState() {
-//   const state = await storage.getItem('appState') || {
-//     isScraping: false,
-//     isPaused: false,
-//     currentPage: 0,
-//     resultsCollected: 0,
-//     scrapeData: null,
-//   };
-//   ({ isScraping, isPaused, scrapeData, currentPage, resultsCollected } = state as any);
-// }
+async function loadCheckpoint(jobId: string): Promise<JobCheckpoint | null> {
+  const state = await storage.getItem(checkpointKey(jobId));
+  return state || null;
+}
 
-// async function saveAppState() {
-//   await storage.setItem('appState', { isScraping, isPaused, scrapeData, currentPage, resultsCollected });
-// }
+// The job that ran last without completing, offered for a resume when the app starts
+async function loadLatestCheckpoint(): Promise<JobCheckpoint | null> {
+  const keys = (await storage.keys()).filter((key) => key.startsWith('checkpoint:'));
+  const saved: JobCheckpoint[] = await Promise.all(keys.map((key) => storage.getItem(key)));
+  return saved.reduce<JobCheckpoint | null>(
+    (latest, state) => (!latest || state.updatedAt > latest.updatedAt ? state : latest),
+    null
+  );
+}
+
+async function saveAppState() {
+  if (!checkpoint) return;
+  checkpoint.updatedAt = new Date().toISOString();
+  await storage.setItem(checkpointKey(checkpoint.jobId), checkpoint);
+}
+
+async function clearCheckpoint(jobId: string) {
+  if (checkpoint?.jobId === jobId) {
+    checkpoint = null;
+  }
+  await storage.removeItem(checkpointKey(jobId));
+}
+
+function sendQueueUpdate() {
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('queue-updated', { jobs: getJobs(), running: queueRunning });
+  }
+}
 
 async function createWindow() {
-  // await initializeStorage(); // Initialize storage
+  await initializeStorage(); // Initialize storage
+  await loadSettings();
 
   const iconName = process.platform === 'darwin' ? 'logo.icns' : 'logo.ico';
   let iconPath: string;
@@ -71,65 +214,269 @@ async function createWindow() {
 
   mainWindow.loadURL(url);
 
-  // await loadAppState();
-  // if (isScraping) {
-  //   mainWindow.webContents.once('did-finish-load', () => {
-  //     mainWindow?.webContents.send('restore-app-state', {
-  //       scrapeData,
-  //       currentPage,
-  //       resultsCollected,
-  //     });
-  //   });
-  // }
-
-  ipcMain.on('start-scraping', async (event, data: ScrapeData) => {
-    if (isScraping) {
-      event.sender.send('error', 'Scraping is already in progress.');
+  onLogEntry((entry) => {
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send('log-entry', entry);
+    }
+  });
+
+  await loadQueue();
+  await loadColumnTemplates();
+  await loadJobPresets();
+  await loadCreditLedger();
+  await loadRequestBudget();
+  await loadSchedules();
+  await saveQueue();
+
+  const savedCheckpoint = await loadLatestCheckpoint();
+  if (savedCheckpoint) {
+    mainWindow.webContents.once('did-finish-load', () => {
+      mainWindow?.webContents.send('restore-app-state', savedCheckpoint);
+    });
+  }
+
+  // Adds the job to the queue and starts the queue if it is idle
+  ipcMain.on('start-scraping', async (_event, data: ScrapeData) => {
+    addJob(data);
+    await saveQueue();
+    sendQueueUpdate();
+    startQueue();
+  });
+
+  ipcMain.on('queue-add', async (_event, data: ScrapeData) => {
+    addJob(data);
+    await saveQueue();
+    sendQueueUpdate();
+  });
+
+  ipcMain.on('queue-start', () => {
+    startQueue();
+  });
+
+  ipcMain.on('queue-move', async (_event, jobId: string, direction: -1 | 1) => {
+    moveJob(jobId, direction);
+    await saveQueue();
+    sendQueueUpdate();
+  });
+
+  ipcMain.on('queue-cancel', async (_event, jobId: string) => {
+    const job = getJob(jobId);
+    if (!job) return;
+    if (job.status === 'running') {
+      stopCurrentJob();
       return;
     }
-    isScraping = true;
-    isPaused = false;
-    wasStopped = false;
-    scrapeData = data;
+    if (job.status === 'pending') {
+      updateJob(jobId, { status: 'cancelled', finishedAt: new Date().toISOString() });
+      await saveQueue();
+      sendQueueUpdate();
+    }
+  });
+
+  ipcMain.on('queue-retry', async (_event, jobId: string) => {
+    const job = getJob(jobId);
+    if (!job || !canRetryJob(job)) return;
+    // A failed or stopped job resumes from its checkpoint. Without one (it was discarded), the job
+    // starts over and adds to its output rather than replace what it already collected.
+    const restart = job.status !== 'cancelled' && !(await loadCheckpoint(jobId));
+    updateJob(jobId, {
+      status: 'pending',
+      error: undefined,
+      finishedAt: undefined,
+      scrapeData: restart ? { ...job.scrapeData, appendToExisting: true } : job.scrapeData
+    });
+    await saveQueue();
+    sendQueueUpdate();
+  });
 
-    // currentPage = data.startIdx || 0;
-    // resultsCollected = 0;
+  // Queues a job that fetches only the records and pages the given job could not fetch,
+  // appending them to its output
+  ipcMain.on('queue-retry-failures', async (_event, jobId: string) => {
+    const job = getJob(jobId);
+    if (!job || !canRetryFailures(job)) return;
+    const failed = await readFailures(job.scrapeData.savePath);
+    if (failed.length === 0) return;
+    const pageSize = getPageSize(getApiType(job.scrapeData.apiType), job.scrapeData.payload);
+    addJob({
+      ...job.scrapeData,
+      startIdx: 0,
+      totalResults: failed.reduce((total, failure) => total + (failure.kind === 'page' ? pageSize : 1), 0),
+      appendToExisting: true,
+      retryFailures: true,
+      // The failed pages are older than what the earlier run captured
+      incremental: undefined
+    });
+    await saveQueue();
+    sendQueueUpdate();
+    startQueue();
+  });
+
+  ipcMain.on('queue-remove', async (_event, jobId: string) => {
+    const job = getJob(jobId);
+    if (!job || job.status === 'running') return;
+    removeJob(jobId);
+    await clearCheckpoint(jobId);
+    await saveQueue();
+    sendQueueUpdate();
+  });
+
+  ipcMain.handle('get-settings', async () => {
+    return getSettings();
+  });
 
-    // await saveAppState();
+  ipcMain.handle('save-settings', async (_event, changes) => {
+    return saveSettings(changes);
+  });
+
+  ipcMain.handle('get-api-types', async () => {
+    return listApiTypes();
+  });
 
-    startScraping();
+  ipcMain.handle('estimate-credits', async (_event, data: ScrapeData) => {
+    return estimateCredits(data);
+  });
+
+  ipcMain.handle('get-credit-ledger', async () => {
+    return getCreditLedger();
+  });
+
+  // Continues a job that was paused at its credit cap with a higher cap
+  ipcMain.on('raise-credit-cap', async (_event, creditCap: number) => {
+    if (scrapeData && isScraping) {
+      scrapeData.creditCap = creditCap;
+      await saveQueue();
+      await saveAppState();
+      isPaused = false;
+      log('info', 'pause', `Resumed with the job's credit cap raised to ${creditCap}`);
+    }
+  });
+
+  ipcMain.handle('get-incremental-cursor', async (_event, apiType: string, payload: ApiRecord) => {
+    return getIncrementalCursor(apiType, payload);
+  });
+
+  ipcMain.handle('reset-incremental-cursor', async (_event, apiType: string, payload: ApiRecord) => {
+    await resetIncrementalCursor(apiType, payload);
+  });
+
+  ipcMain.handle('get-schedules', async () => {
+    return getSchedules();
+  });
+
+  ipcMain.handle('save-schedule', async (_event, schedule: JobSchedule) => {
+    return saveSchedule(schedule);
+  });
+
+  ipcMain.handle('delete-schedule', async (_event, id: string) => {
+    await deleteSchedule(id);
+  });
+
+  ipcMain.on('run-schedule-now', async (_event, id: string) => {
+    const schedule = getSchedule(id);
+    if (schedule && (await queueScheduleRun(schedule))) {
+      startQueue();
+    }
+  });
+
+  ipcMain.handle('get-log-entries', async () => {
+    return getLogEntries();
+  });
+
+  ipcMain.handle('count-seen-records', async (_event, apiType: string) => {
+    return countSeenRecords(apiType);
+  });
+
+  ipcMain.handle('clear-seen-records', async (_event, apiType: string) => {
+    await clearSeenRecords(apiType);
+  });
+
+  ipcMain.handle('get-queue', async () => {
+    return { jobs: getJobs(), running: queueRunning };
+  });
+
+  ipcMain.on('resume-previous-job', async (event) => {
+    if (queueRunning) {
+      event.sender.send('error', 'Scraping is already in progress.');
+      return;
+    }
+    const saved = await loadLatestCheckpoint();
+    if (!saved) {
+      event.sender.send('error', 'There is no previous job to resume.');
+      return;
+    }
+    let job = getJob(saved.jobId);
+    if (!job) {
+      // The job was removed from the queue, so the checkpoint moves to a new one
+      job = addJob(saved.scrapeData);
+      await storage.removeItem(checkpointKey(saved.jobId));
+      await storage.setItem(checkpointKey(job.id), { ...saved, jobId: job.id });
+    }
+    // The interrupted job runs first; the queue continues afterwards
+    updateJob(job.id, { status: 'pending', error: undefined });
+    moveJobToFront(job.id);
+    await saveQueue();
+    startQueue();
+  });
+
+  ipcMain.on('discard-previous-job', async () => {
+    const saved = await loadLatestCheckpoint();
+    if (saved && !isScraping) {
+      await clearCheckpoint(saved.jobId);
+    }
   });
 
   ipcMain.on('pause-scraping', async () => {
     isPaused = true;
-    // await saveAppState();
+    autoPaused = false;
+    log('info', 'pause', 'Paused by the user');
+    await saveAppState();
   });
 
   ipcMain.on('resume-scraping', () => {
     if (isScraping && isPaused) {
       isPaused = false;
+      log('info', 'pause', 'Resumed by the user');
     }
   });
 
-  ipcMain.on('stop-scraping', () => {
-    isScraping = false;
-    isPaused = false;
-    wasStopped = true;
+  ipcMain.on('stop-scraping', async () => {
+    // Stopping halts the whole queue; jobs that have not started stay pending
+    haltQueue = true;
+    stopCurrentJob();
 
-    if (delayCancel) {
-      delayCancel();
-      delayCancel = null;
-    }
+    // Keep the checkpoint so the stopped job can still be resumed later
+    await saveAppState();
 
     if (mainWindow && !mainWindow.isDestroyed()) {
       mainWindow.webContents.send('scraping-stopped');
     }
   });
 
-  ipcMain.on('update-cookies', (_event, newCookies) => {
+  ipcMain.on('update-cookies', async (_event, newCookies) => {
     if (scrapeData) {
-      scrapeData.cookies = newCookies;
-      scrapeData.headers = extractHeadersFromCookies(newCookies);
+      let cookies: BrowserCookie[];
+      let headers: Record<string, string>;
+      try {
+        cookies = toCookieList(newCookies);
+        headers = extractHeadersFromCookies(cookies);
+      } catch (error) {
+        const message = `The new cookies were not used: ${(error as Error).message}`;
+        if (cookieRenewal) {
+          cookieRenewal(new Error(message));
+        } else {
+          mainWindow?.webContents.send('error', message);
+        }
+        return;
+      }
+      log('info', 'cookies', 'Cookies updated');
+      scrapeData.cookies = cookies;
+      scrapeData.headers = headers;
+      cookieRenewal?.(true);
+      updatePendingCookies(scrapeData.cookies, scrapeData.headers);
+      await saveQueue();
+      if (scrapeData.scheduleId) {
+        await updateScheduleCookies(scrapeData.scheduleId, scrapeData.cookies, scrapeData.headers);
+      }
     }
   });
 
@@ -141,7 +488,8 @@ async function createWindow() {
     const { canceled, filePath } = await dialog.showSaveDialog(mainWindow!, {
       title: 'Select Save Location',
       defaultPath: 'data.csv',
-      filters: [{ name: 'CSV Files', extensions: ['csv'] }],
+      // The output format follows the extension of the chosen file
+      filters: saveDialogFilters
     });
     if (canceled) {
       return null;
@@ -154,89 +502,617 @@ async function createWindow() {
     return fs.existsSync(filePath);
   });
 
+  ipcMain.handle(
+    'inspect-output-file',
+    async (_event, filePath: string, apiType: string, template?: ColumnTemplate) => {
+      const info = await inspectOutputFile(filePath, getRowLayout(getApiType(apiType), template).columns);
+      return { ...info, hasArchive: hasResponseArchive(filePath) };
+    }
+  );
+
+  // Regenerates an output from its response archive into a file of the user's choice
+  ipcMain.handle('rebuild-export', async (_event, savePath: string, template?: ColumnTemplate) => {
+    const { canceled, filePath } = await dialog.showSaveDialog(mainWindow!, {
+      title: 'Save Rebuilt Export',
+      defaultPath: savePath,
+      filters: saveDialogFilters
+    });
+    if (canceled || !filePath) {
+      return null;
+    }
+    return rebuildExport(savePath, filePath, template);
+  });
+
+  ipcMain.handle('inspect-cookies', async (_event, text: string) => {
+    return inspectCookieText(text);
+  });
+
+  ipcMain.handle('import-job', async (_event, text: string) => {
+    return importJob(text);
+  });
+
+  ipcMain.handle('import-job-file', async () => {
+    const { canceled, filePaths } = await dialog.showOpenDialog(mainWindow!, {
+      title: 'Import Job from HAR File',
+      filters: [{ name: 'HAR files', extensions: ['har', 'json'] }],
+      properties: ['openFile']
+    });
+    if (canceled || filePaths.length === 0) {
+      return null;
+    }
+    return importJob(await fs.promises.readFile(filePaths[0], 'utf8'));
+  });
+
+  ipcMain.handle('read-payload-filters', async (_event, apiType: string, payload: ApiRecord | null) => {
+    return readPayloadFilters(apiType, payload);
+  });
+
+  ipcMain.handle(
+    'apply-payload-filters',
+    async (_event, apiType: string, values: FilterValues, payload: ApiRecord | null) => {
+      return applyPayloadFilters(apiType, values, payload);
+    }
+  );
+
+  ipcMain.handle('check-pagination', async (_event, apiType: string, payload: unknown) => {
+    return findPaginationProblem(getApiType(apiType), payload);
+  });
+
+  ipcMain.handle('test-session', async (_event, data: ScrapeData) => {
+    return testSession(data);
+  });
+
+  ipcMain.handle('estimate-session', async (_event, data: ScrapeData) => {
+    return estimateSession(data);
+  });
+
+  ipcMain.handle('get-column-templates', async () => {
+    return getColumnTemplates();
+  });
+
+  ipcMain.handle('save-column-template', async (_event, template: ColumnTemplate) => {
+    return saveColumnTemplate(template);
+  });
+
+  ipcMain.handle('delete-column-template', async (_event, id: string) => {
+    await deleteColumnTemplate(id);
+  });
+
+  ipcMain.handle('get-job-presets', async () => {
+    return getJobPresets();
+  });
+
+  ipcMain.handle('save-job-preset', async (_event, preset: JobPreset) => {
+    return saveJobPreset(preset);
+  });
+
+  ipcMain.handle('duplicate-job-preset', async (_event, id: string) => {
+    return duplicateJobPreset(id);
+  });
+
+  ipcMain.handle('delete-job-preset', async (_event, id: string) => {
+    await deleteJobPreset(id);
+  });
+
+  ipcMain.handle('export-job-presets', async (_event, ids: string[], includeCookies: boolean) => {
+    const { canceled, filePath } = await dialog.showSaveDialog(mainWindow!, {
+      title: 'Export Job Presets',
+      defaultPath: 'job-presets.json',
+      filters: [{ name: 'JSON files', extensions: ['json'] }]
+    });
+    if (canceled || !filePath) {
+      return null;
+    }
+    await exportJobPresets(ids, filePath, includeCookies);
+    return filePath;
+  });
+
+  ipcMain.handle('import-job-presets', async () => {
+    const { canceled, filePaths } = await dialog.showOpenDialog(mainWindow!, {
+      title: 'Import Job Presets',
+      filters: [{ name: 'JSON files', extensions: ['json'] }],
+      properties: ['openFile']
+    });
+    if (canceled || filePaths.length === 0) {
+      return null;
+    }
+    return importJobPresets(filePaths[0]);
+  });
+
+  ipcMain.handle('get-source-paths', async (_event, apiType: string) => {
+    return listSourcePaths(apiType);
+  });
+
   powerMonitor.on('suspend', async () => {
     if (isScraping && !isPaused) {
       isPaused = true;
-      // await saveAppState();
-      // mainWindow?.webContents.send('auto-pause');
+      autoPaused = true;
+      log('info', 'pause', 'Paused because the system is going to sleep');
+      await saveAppState();
+      mainWindow?.webContents.send('auto-pause');
     }
   });
 
+  // Only lifts the pause: the paused loop continues by itself, and restarting the job here
+  // would reopen (and truncate) the output file mid-run
   powerMonitor.on('resume', () => {
-    if (isScraping && isPaused) {
+    if (isScraping && isPaused && autoPaused) {
       isPaused = false;
-      // mainWindow?.webContents.send('auto-resume');
-      startScraping();
+      autoPaused = false;
+      log('info', 'pause', 'Resumed after the system woke up');
+      mainWindow?.webContents.send('auto-resume');
     }
   });
 
+  // A check that failed, e.g. on storage, is logged and the next interval tries again
+  const checkSchedules = () =>
+    runDueSchedules().catch((error: Error) =>
+      log('error', 'job', `Could not start the due schedules: ${error.message}`)
+    );
+  setInterval(checkSchedules, SCHEDULE_CHECK_INTERVAL_MS);
+  mainWindow.webContents.once('did-finish-load', checkSchedules);
+
   nativeTheme.themeSource = 'dark';
 }
 
 app.whenReady().then(createWindow);
 app.on('window-all-closed', () => app.quit());
 
+function sendSchedulesUpdate() {
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('schedules-updated', getSchedules());
+  }
+}
+
+/**
+ * Adds a run of the schedule to the queue, unless its previous run is still queued or running.
+ * Returns whether a run was added.
+ */
+async function queueScheduleRun(schedule: JobSchedule): Promise<boolean> {
+  const busy = getJobs().some(
+    (job) => job.scrapeData.scheduleId === schedule.id && (job.status === 'pending' || job.status === 'running')
+  );
+  if (busy) {
+    log('warn', 'job', `Skipped a run of "${schedule.name}": its previous run has not finished`);
+    return false;
+  }
+  addJob({ ...schedule.scrapeData, scheduleId: schedule.id });
+  log('info', 'job', `Queued a run of "${schedule.name}"`);
+  await saveQueue();
+  sendQueueUpdate();
+  return true;
+}
+
+async function runDueSchedules() {
+  let queued = false;
+  for (const schedule of dueSchedules(new Date())) {
+    await advanceSchedule(schedule.id);
+    queued = (await queueScheduleRun(schedule)) || queued;
+  }
+  sendSchedulesUpdate();
+  if (queued) {
+    startQueue();
+  }
+}
+
+function reportError(message: string) {
+  jobError = message;
+  log('error', 'job', message);
+  mainWindow?.webContents.send('error', message);
+}
+
+function stopCurrentJob() {
+  isScraping = false;
+  isPaused = false;
+  wasStopped = true;
+  cookieRenewal?.(false);
+
+  if (delayCancel) {
+    delayCancel();
+    delayCancel = null;
+  }
+}
+
+async function createCheckpoint(job: QueuedJob): Promise<JobCheckpoint> {
+  const { apiType, payload, startIdx } = job.scrapeData;
+  const { page, skipRows } = getFirstPage(getApiType(apiType), payload, startIdx);
+  const state: JobCheckpoint = {
+    jobId: job.id,
+    scrapeData: job.scrapeData,
+    page,
+    resultsCollected: 0,
+    skipped: 0,
+    updatedAt: new Date().toISOString()
+  };
+  if (skipRows > 0) {
+    state.skipRows = skipRows;
+  }
+  if (getApiType(job.scrapeData.apiType).enrichment) {
+    state.phase = 'search';
+    state.enrichIds = [];
+    state.enrichContext = {};
+    state.enrichIndex = 0;
+  }
+  if (job.scrapeData.retryFailures) {
+    const failed = await readFailures(job.scrapeData.savePath);
+    state.retryPages = failed.flatMap((failure) => (failure.kind === 'page' && failure.page ? [failure.page] : []));
+    if (state.phase) {
+      const enrichContext: Record<string, ApiRecord> = {};
+      failed.forEach(({ kind, id, context }) => {
+        if (kind === 'record' && id) {
+          enrichContext[id] = context || {};
+        }
+      });
+      state.phase = state.retryPages.length > 0 ? 'search' : 'enrich';
+      state.enrichIds = Object.keys(enrichContext);
+      state.enrichContext = enrichContext;
+    }
+  }
+  return state;
+}
+
+// Runs the queue without waiting for it, for the handlers that start it
+function startQueue() {
+  runQueue().catch((error) => reportError(`Error: ${(error as Error).message}`));
+}
+
+/**
+ * Runs pending jobs one after another until the queue is empty or stopped.
+ */
+async function runQueue() {
+  if (queueRunning) return;
+  queueRunning = true;
+  haltQueue = false;
+  let failedJobs = 0;
+
+  try {
+    let job = nextPendingJob();
+    while (job && !haltQueue) {
+      const status = await runJob(job);
+      if (status === 'failed') {
+        failedJobs += 1;
+      }
+      job = haltQueue ? undefined : nextPendingJob();
+    }
+  } finally {
+    queueRunning = false;
+    sendQueueUpdate();
+  }
+
+  if (!haltQueue && failedJobs === 0 && mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('scraping-finished');
+  }
+}
+
+async function runJob(job: QueuedJob): Promise<JobStatus> {
+  isScraping = true;
+  isPaused = false;
+  wasStopped = false;
+  jobError = null;
+  scrapeData = job.scrapeData;
+
+  // A job that was interrupted or failed part-way continues from its checkpoint
+  const saved = await loadCheckpoint(job.id);
+  const resume = saved !== null;
+  const state = saved ? { ...saved, scrapeData: job.scrapeData } : await createCheckpoint(job);
+  checkpoint = state;
+
+  updateJob(job.id, { status: 'running', startedAt: new Date().toISOString(), error: undefined });
+  await saveAppState();
+  await saveQueue();
+  sendQueueUpdate();
+
+  const { apiType, savePath, totalResults, appendToExisting } = job.scrapeData;
+  openJobLog(job.id, savePath, resume || Boolean(appendToExisting));
+  log('info', 'job', `${resume ? 'Resuming' : 'Starting'} ${apiType} job`, { savePath, totalResults });
+
+  const outcome = await startScraping(resume);
+  isScraping = false;
+  isPaused = false;
+
+  // Cancelling only the running job ends it without halting the queue
+  let status: JobStatus = outcome;
+  if (outcome === 'stopped' && !haltQueue) {
+    status = 'cancelled';
+    await clearCheckpoint(job.id);
+  }
+
+  updateJob(job.id, {
+    status,
+    resultsCollected: state.resultsCollected,
+    skipped: state.skipped || 0,
+    failures: (await readFailures(savePath)).length,
+    error: status === 'failed' ? jobError || 'Unknown error' : undefined,
+    finishedAt: new Date().toISOString()
+  });
+  log(status === 'failed' ? 'error' : 'info', 'job', `Job ${status}`, {
+    rowsWritten: state.resultsCollected,
+    skipped: state.skipped || 0
+  });
+  await closeJobLog();
+  await saveQueue();
+  sendQueueUpdate();
+  return status;
+}
+
 // async function autoPauseOrResume() {
 //   while (isPaused) {
 //     await new Promise((resolve) => setTimeout(resolve, 1000));
 //   }
 // }
 
-async function startScraping() {
-  if (!scrapeData) return;
-  const { apiType, cookies, payload, totalResults, startIdx, savePath } = scrapeData;
+async function startScraping(resume: boolean): Promise<'completed' | 'failed' | 'stopped'> {
+  if (!scrapeData || !checkpoint) return 'failed';
+  const { apiType, cookies, payload, totalResults, savePath, appendToExisting, dedupeMode, refreshAfterDays } =
+    scrapeData;
 
-  let headers;
+  let definition: ApiTypeDefinition;
+  let layout: RowLayout;
   try {
-    headers = extractHeadersFromCookies(cookies);
-    scrapeData.headers = headers;
+    definition = getApiType(apiType);
+    checkPagination(definition, payload);
+    layout = getRowLayout(definition, scrapeData.columnTemplate);
+    scrapeData.cookies = toCookieList(cookies);
+    scrapeData.headers = extractHeadersFromCookies(scrapeData.cookies);
   } catch (error) {
-    mainWindow?.webContents.send('error', `Error: ${(error as Error).message}`);
+    reportError(`Error: ${(error as Error).message}`);
     isScraping = false;
-    return;
+    return 'failed';
   }
 
-  const writeStream = fs.createWriteStream(savePath, { flags: 'w' });
-  const csvStringifier = stringify({ header: true });
+  let output: OutputSink;
+  let comparison: RunComparison | null = null;
+  try {
+    // A resumed job appends to the file it was already writing
+    const append = resume || Boolean(appendToExisting);
+    const sinkOptions = {
+      append,
+      columns: layout.columns,
+      idColumn: layout.idColumn,
+      tableName: getTableName(definition)
+    };
+    output = await openOutputSink(savePath, sinkOptions);
+    if (scrapeData.scheduleId) {
+      comparison = await compareWithPreviousRun(scrapeData.scheduleId, savePath, output, sinkOptions);
+      output = comparison.output;
+    }
+    if (scrapeData.archiveResponses) {
+      archive = await openResponseArchive(savePath, scrapeData, append);
+    } else {
+      archive = null;
+      // Rows appended to the output keep the archive of the earlier runs that wrote the rest
+      if (!append) {
+        await removeResponseArchive(savePath);
+      }
+    }
+    failures = await openFailureLog(savePath, append);
+  } catch (error) {
+    reportError(`Error: ${(error as Error).message}`);
+    isScraping = false;
+    return 'failed';
+  }
 
-  csvStringifier.pipe(writeStream);
+  // Closed once the job is done, or when it ends early, keeping the rows written so far
+  let outputOpen = true;
+  const closeOutput = async () => {
+    if (!outputOpen) return;
+    outputOpen = false;
+    await output.close();
+  };
 
   try {
-    if (apiType === 'Contact Search') {
-      await handleContactSearch(apiType, payload, headers, totalResults, startIdx, csvStringifier);
+    const seen = await openSeenRecords(apiType, dedupeMode, refreshAfterDays);
+    const incremental = await openIncrementalRun(definition, scrapeData, checkpoint);
+    progress = createProgressTracker(checkpoint.resultsCollected);
+    consecutiveFailures = 0;
+
+    let completed: boolean;
+    if (definition.enrichment) {
+      completed = await scrapeWithEnrichment(
+        definition,
+        definition.enrichment,
+        layout,
+        payload,
+        totalResults,
+        output,
+        seen,
+        checkpoint
+      );
     } else {
-      await scrapeDataFunction(apiType, payload, headers, totalResults, startIdx, csvStringifier);
+      completed = await scrapeDataFunction(
+        definition,
+        layout,
+        payload,
+        totalResults,
+        output,
+        seen,
+        incremental,
+        checkpoint
+      );
     }
 
-    csvStringifier.end();
+    await closeOutput();
+    await seen.save();
+    await failures?.save();
     isScraping = false;
 
-    if (mainWindow && !mainWindow.isDestroyed()) {
-      if (!wasStopped) {
-        mainWindow.webContents.send('scraping-finished');
-      }
+    if (wasStopped) {
+      return 'stopped';
     }
-  } catch (error: any) {
-    mainWindow?.webContents.send('error', `Error: ${error.message}`);
+    if (!completed) {
+      return 'failed';
+    }
+    if (incremental && !(await incremental.complete())) {
+      log('info', 'job', 'The incremental cursor was kept, since the job stopped before the last page it had to reach');
+    }
+    if (comparison && scrapeData.scheduleId) {
+      const newRecords = await comparison.complete();
+      log('info', 'job', `${newRecords} new records since the last run`, { savePath });
+      await recordScheduleRun(scrapeData.scheduleId, newRecords);
+      sendSchedulesUpdate();
+    }
+    await clearCheckpoint(checkpoint.jobId);
+    return 'completed';
+  } catch (error) {
+    isScraping = false;
+    reportError(`Error: ${(error as Error).message}`);
+    return 'failed';
   } finally {
-    // await saveAppState(); 
+    archive = null;
+    progress = null;
+    failures = null;
+    await saveAppState();
+    await closeOutput();
+  }
+}
+
+function failureReason(endpoint: string, error: AxiosError, attempt: number): string {
+  if (isRetryable(error)) {
+    return `${endpoint} still failed after ${attempt} attempts: ${error.message}`;
+  }
+  return `${endpoint}: ${error.message}`;
+}
+
+/**
+ * Lists a page or batch of records the job gave up on in the failures file, so the job can
+ * move on. Returns false once too many requests failed in a row, which fails the job instead.
+ */
+async function recordFailures(reason: string, failed: Omit<FailedRecord, 'failedAt' | 'reason'>[]): Promise<boolean> {
+  consecutiveFailures += 1;
+  if (consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+    reportError(`Error: ${reason}`);
+    return false;
+  }
+  failed.forEach((failure) => failures?.record({ ...failure, reason }));
+  await failures?.save();
+  log('warn', 'skip', `Gave up on ${failed.length === 1 ? 'a request' : `${failed.length} records`}: ${reason}`, {
+    failed: failed.map((failure) => failure.id || failure.page)
+  });
+  return true;
+}
+
+// Picks the page to fetch next; false once a job retrying failures has no failed pages left
+function selectPage(state: JobCheckpoint): boolean {
+  if (!state.retryPages) return true;
+  if (state.retryPages.length === 0) return false;
+  [state.page] = state.retryPages;
+  return true;
+}
+
+function advancePage(state: JobCheckpoint) {
+  state.skipRows = undefined;
+  if (state.retryPages) {
+    state.retryPages.shift();
+  } else {
+    state.page += 1;
+  }
+}
+
+// Delay between requests (simulate human behavior)
+async function waitBeforeNextRequest(onWait: () => void) {
+  const { requestDelayMinMs, requestDelayMaxMs } = getSettings();
+  const delay = randomDelay(requestDelayMinMs, requestDelayMaxMs);
+  progress?.delayStarted(delay);
+  onWait();
+  await cancellableDelay(delay);
+}
+
+/**
+ * Holds the next request back while the job is outside the run windows or over the request
+ * budget. Waits a minute at a time, so changed settings and waking from sleep take effect.
+ */
+async function waitForRequestSlot(onWait: () => void) {
+  let slot = nextRequestSlot(getSettings());
+  if (slot) {
+    log('info', 'pause', `Waiting until ${new Date(slot.at).toLocaleString()}: ${slot.reason}`);
+  }
+  while (slot && isScraping) {
+    progress?.delayStarted(slot.at - Date.now(), slot.reason);
+    onWait();
+    await cancellableDelay(Math.min(slot.at - Date.now(), 60 * 1000));
+    slot = nextRequestSlot(getSettings());
   }
 }
 
+function sendProgress(position: ProgressPosition) {
+  if (progress) {
+    mainWindow?.webContents.send('progress-update', progress.snapshot(position));
+  }
+}
+
+// Writes buffered rows, the seen-records index and the failures before the checkpoint that refers to them
+async function checkpointJob(output: OutputSink, seen: SeenRecords) {
+  await output.flush();
+  await seen.save();
+  await failures?.save();
+  await saveAppState();
+}
+
+async function checkPaused() {
+  if (isPaused) {
+    await new Promise((resolve) => {
+      const interval = setInterval(() => {
+        if (!isPaused) {
+          clearInterval(interval);
+          resolve(true);
+        }
+      }, 1000);
+    });
+  }
+}
+
+function cancellableDelay(ms: number): Promise<void> {
+  return new Promise<void>((resolve) => {
+    const timeout = setTimeout(() => {
+      delayCancel = null;
+      resolve();
+    }, ms);
+    delayCancel = () => {
+      clearTimeout(timeout);
+      delayCancel = null;
+      resolve(); // Proceed immediately
+    };
+  });
+}
+
+// Read for every request so that cookies renewed mid-run take effect immediately
+function requestHeaders(): Record<string, string> {
+  return scrapeData?.headers || {};
+}
+
+/**
+ * Pages through a search API, writing one output row per result.
+ * Returns false when the run was aborted by an error, so the checkpoint is kept for a resume.
+ */
 async function scrapeDataFunction(
-  apiType: string,
+  apiType: ApiTypeDefinition,
+  layout: RowLayout,
   payload: any,
-  headers: any,
   totalResults: number,
-  startIdx: number,
-  csvStringifier: any
-) {
-  const apiUrl = getApiUrl(apiType);
-  let resultsCollected = 0;
-  let page = Math.ceil(startIdx / 25) + 1;
+  output: OutputSink,
+  seen: SeenRecords,
+  incremental: IncrementalRun | null,
+  state: JobCheckpoint
+): Promise<boolean> {
+  const apiUrl = getApiUrl(apiType.endpoint);
+  const pageSize = getPageSize(apiType, payload);
+
+  const reportProgress = () =>
+    sendProgress({
+      apiType: apiType.name,
+      phase: 'search',
+      page: state.page,
+      rowsWritten: state.resultsCollected,
+      skipped: state.skipped || 0,
+      phaseDone: state.resultsCollected,
+      phaseTotal: totalResults,
+      remainingRequests: Math.ceil((totalResults - state.resultsCollected) / pageSize)
+    });
 
-  while (isScraping && resultsCollected < totalResults) {
+  // Attempts at the current request; reset after every successful one
+  let attempt = 1;
 
+  while (isScraping && state.resultsCollected < totalResults) {
     // Check if we should pause due to sleep/wake cycle
     // await autoPauseOrResume();
 
@@ -251,99 +1127,178 @@ async function scrapeDataFunction(
       });
     }
 
-    if (!isScraping) {
+    if (!isScraping || !selectPage(state)) {
       break;
     }
 
-    // Update payload with current page
-    const updatedPayload = JSON.parse(JSON.stringify(payload)); // Deep copy
-    setPageInPayload(updatedPayload, page);
+    const updatedPayload = withPage(apiType, payload, state.page);
+
+    await waitForRequestSlot(reportProgress);
+    if (!isScraping) {
+      break;
+    }
 
     try {
-      const response = await axios.post(apiUrl, updatedPayload, { headers });
+      progress?.requestSent();
+      await recordRequest();
+      log('debug', 'request', `POST ${apiType.endpoint}`, { page: state.page });
+      const response = await axios.post(apiUrl, updatedPayload, {
+        headers: requestHeaders(),
+        timeout: getSettings().requestTimeoutMs
+      });
+      attempt = 1;
+      consecutiveFailures = 0;
       const data = response.data;
 
-      // Handle different API types
-      const results = extractResults(apiType, data);
+      // Handle different API types; the first page may start before the job's start index
+      const firstResult = state.skipRows || 0;
+      const results = extractResults(apiType, data).slice(firstResult);
+      log('info', 'response', `${response.status} ${apiType.endpoint}`, { page: state.page, results: results.length });
+
+      failures?.resolve('page', state.page);
 
       if (!results || results.length === 0) {
-        if (resultsCollected === 0) {
-          mainWindow?.webContents.send('error', 'No data found for the given payload.');
+        if (state.retryPages) {
+          // A retried page that turned out empty has nothing left to fetch
+          advancePage(state);
+          continue;
         }
+        if (state.resultsCollected === 0 && !state.skipped) {
+          reportError('No data found for the given payload.');
+        }
+        incremental?.lastPageReached();
         break;
       }
 
-      // Write results to CSV
-      for (const result of results) {
-        const csvRow = transformResultToCsvRow(apiType, result);
-        csvStringifier.write(csvRow);
-        resultsCollected += 1;
-
-        // Send progress update
-        const progressPercentage = Math.min(
-          (resultsCollected / totalResults) * 100,
-          100
-        );
-        mainWindow?.webContents.send('progress-update', {
-          progressPercentage,
-        });
+      // Write results to the output, leaving out records earlier runs already fetched
+      await rememberSampleResult(apiType.name, results[0]);
+      let reachedEnd = false;
+      const written: number[] = [];
+      for (const [index, result] of results.entries()) {
+        const verdict = incremental ? incremental.check(result) : 'new';
+        if (verdict === 'stop') {
+          reachedEnd = true;
+          break;
+        }
+        const recordId = String(getValueByPath(result, apiType.idPath) ?? '');
+        if (verdict === 'known') {
+          state.skipped = (state.skipped || 0) + 1;
+          log('info', 'skip', `Skipped ${apiType.idPath} ${recordId}, captured by an earlier incremental run`);
+        } else if (recordId && seen.shouldSkip(recordId)) {
+          state.skipped = (state.skipped || 0) + 1;
+          log('info', 'skip', `Skipped ${apiType.idPath} ${recordId}, fetched by an earlier run`);
+        } else {
+          await output.write(layout.toRow(result));
+          if (recordId) seen.markSeen(recordId);
+          written.push(firstResult + index);
+          state.resultsCollected += 1;
+        }
 
-        if (resultsCollected >= totalResults) {
+        if (state.resultsCollected >= totalResults) {
           break;
         }
       }
+      await archive?.record({ kind: 'search', page: state.page, written, data });
 
-      page += 1;
+      if (incremental) {
+        state.newestCaptured = incremental.newestCaptured();
+      }
+      advancePage(state);
+      await checkpointJob(output, seen); // Save state after each page
+      reportProgress();
 
-      if (resultsCollected >= totalResults || !isScraping) {
+      if (reachedEnd) {
+        log('info', 'job', 'Reached records captured by an earlier run or older than the chosen date');
+        break;
+      }
+      if (state.resultsCollected >= totalResults || !isScraping) {
         break;
       }
 
-      // Delay between requests (simulate human behavior)
-      const delay = randomDelay(5000, 15000);
-      await cancellableDelay(delay);
+      await waitBeforeNextRequest(reportProgress);
       if (!isScraping) {
         break;
       }
-    } catch (error: any) {
-      if (error.response && [401, 403].includes(error.response.status)) {
-        mainWindow?.webContents.send('request-new-cookies');
-        await waitForCookiesUpdate();
-        continue;
-      } else {
-        mainWindow?.webContents.send('error', `Error: ${error.message}`);
-        break;
+    } catch (error) {
+      // Only a failed request is retried or recorded; a local error, e.g. writing the output, fails the job
+      if (!axios.isAxiosError(error)) {
+        throw error;
+      }
+      progress?.requestFailed();
+      reportProgress();
+      const outcome = await handleRequestError(apiType.endpoint, error, attempt, { page: state.page }, reportProgress);
+      if (outcome === 'retry') {
+        attempt += 1;
+      } else if (outcome === 'fail') {
+        const reason = failureReason(apiType.endpoint, error, attempt);
+        attempt = 1;
+        if (!(await recordFailures(reason, [{ kind: 'page', page: state.page }]))) {
+          return false;
+        }
+        advancePage(state);
+        await checkpointJob(output, seen);
+        await waitBeforeNextRequest(reportProgress);
       }
     }
   }
+  return true;
 }
 
-async function handleContactSearch(
-  _apiType: string,
+/**
+ * API types with an enrichment step run in two phases: search pages collect record IDs, then
+ * one enrichment call per ID (e.g. viewContacts for Contact Search) fetches the details that
+ * are written to the output. Both phases resume from `state`.
+ */
+async function scrapeWithEnrichment(
+  apiType: ApiTypeDefinition,
+  enrichment: EnrichmentStep,
+  layout: RowLayout,
   payload: any,
-  headers: any,
   totalResults: number,
-  startIdx: number,
-  csvStringifier: any
-) {
-  const personSearchUrl = 'https://app.zoominfo.com/profiles/graphql/personSearch';
-  const viewContactsUrl = 'https://app.zoominfo.com/anura/userData/viewContacts';
-
-  let personIds: string[] = [];
-  let socialUrlsMap: Record<string, any> = {};
-  let resultsCollected = 0;
-  let page = Math.ceil(startIdx / 25) + 1;
-
-  const totalPersonSearchCalls = Math.ceil(totalResults / 25);
-  const totalApiCalls = totalPersonSearchCalls + totalResults; // PersonSearch calls + viewContacts calls
-  let apiCallsCompleted = 0;
+  output: OutputSink,
+  seen: SeenRecords,
+  state: JobCheckpoint
+): Promise<boolean> {
+  const searchUrl = getApiUrl(apiType.endpoint);
+  const enrichUrl = getApiUrl(enrichment.endpoint);
+  const pageSize = getPageSize(apiType, payload);
+  const batchSize = getEnrichBatchSize(enrichment, scrapeData?.enrichBatchSize);
+
+  state.phase = state.phase || 'search';
+  state.enrichIds = state.enrichIds || [];
+  state.enrichContext = state.enrichContext || {};
+  state.enrichIndex = state.enrichIndex || 0;
+  const { enrichIds, enrichContext } = state;
+
+  const totalSearchCalls = Math.ceil(totalResults / pageSize);
+  const totalApiCalls = totalSearchCalls + Math.ceil(totalResults / batchSize); // Search calls + enrichment calls
+  let apiCallsCompleted =
+    state.phase === 'search'
+      ? Math.ceil(enrichIds.length / pageSize)
+      : totalSearchCalls + Math.ceil(state.enrichIndex / batchSize);
+
+  const reportProgress = () => {
+    const searching = state.phase === 'search';
+    sendProgress({
+      apiType: apiType.name,
+      phase: state.phase || 'search',
+      page: state.page,
+      rowsWritten: state.resultsCollected,
+      skipped: state.skipped || 0,
+      phaseDone: searching ? enrichIds.length : state.enrichIndex || 0,
+      phaseTotal: searching ? totalResults : enrichIds.length,
+      remainingRequests: Math.max(totalApiCalls - apiCallsCompleted, 0)
+    });
+  };
 
-  // Step 1: Fetch person IDs
-  while (isScraping && personIds.length < totalResults) {
+  // Attempts at the current request; reset after every successful one
+  let attempt = 1;
 
+  // Step 1: Collect record IDs from the search
+  while (state.phase === 'search' && isScraping && enrichIds.length < totalResults) {
     // Check if we should pause due to sleep/wake cycle
     // await autoPauseOrResume();
-    
+
     if (isPaused) {
       await new Promise((resolve) => {
         const interval = setInterval(() => {
@@ -355,141 +1310,206 @@ async function handleContactSearch(
       });
     }
 
-    if (!isScraping) {
+    if (!isScraping || !selectPage(state)) {
       break;
     }
 
-    // Update payload with current page
-    const updatedPayload = JSON.parse(JSON.stringify(payload)); // Deep copy
-    setPageInPayload(updatedPayload, page);
+    const updatedPayload = withPage(apiType, payload, state.page);
+
+    await waitForRequestSlot(reportProgress);
+    if (!isScraping) {
+      break;
+    }
 
     try {
-      const response = await axios.post(personSearchUrl, updatedPayload, { headers });
+      progress?.requestSent();
+      await recordRequest();
+      log('debug', 'request', `POST ${apiType.endpoint}`, { page: state.page });
+      const response = await axios.post(searchUrl, updatedPayload, {
+        headers: requestHeaders(),
+        timeout: getSettings().requestTimeoutMs
+      });
+      attempt = 1;
+      consecutiveFailures = 0;
       const data = response.data;
+      await archive?.record({ kind: 'search', page: state.page, data });
+
+      // The first page may start before the job's start index
+      const results = extractResults(apiType, data).slice(state.skipRows || 0);
+      log('info', 'response', `${response.status} ${apiType.endpoint}`, { page: state.page, results: results.length });
 
-      const results = data?.data?.personSearch?.data || [];
+      failures?.resolve('page', state.page);
 
       if (!results || results.length === 0) {
-        if (personIds.length === 0) {
-          mainWindow?.webContents.send('error', 'No data found for the given payload.');
+        if (state.retryPages) {
+          advancePage(state);
+          continue;
+        }
+        if (enrichIds.length === 0 && !state.skipped) {
+          reportError('No data found for the given payload.');
         }
         break;
       }
 
-      for (const person of results) {
-        if (personIds.length >= totalResults) {
+      for (const result of results) {
+        if (enrichIds.length >= totalResults) {
           break;
         }
-        const personId = person.personID;
-        if (personId) {
-          personIds.push(personId);
-
-          // Store social URLs
-          socialUrlsMap[personId] = person.socialUrlsParsed || {};
+        const recordId = String(result[enrichment.idField] ?? '');
+        if (recordId && seen.shouldSkip(recordId)) {
+          // Skipped before enrichment, so no enrichment call (or credit) is spent on it
+          state.skipped = (state.skipped || 0) + 1;
+          log('info', 'skip', `Skipped ${enrichment.idField} ${recordId}, fetched by an earlier run`);
+        } else if (recordId) {
+          enrichIds.push(recordId);
+
+          // Keep what the enrichment response does not include
+          enrichContext[recordId] = enrichment.collectContext ? enrichment.collectContext(result) : {};
         }
       }
 
       apiCallsCompleted += 1;
-      const progressPercentage = Math.min(
-        (apiCallsCompleted / totalApiCalls) * 100,
-        100
-      );
-      mainWindow?.webContents.send('progress-update', {
-        progressPercentage,
-      });
+      reportProgress();
 
-      page += 1;
+      advancePage(state);
+      await checkpointJob(output, seen); // Save state after each page
 
-      if (personIds.length >= totalResults || !isScraping) {
+      if (enrichIds.length >= totalResults || !isScraping) {
         break;
       }
 
-      // Delay between requests (simulate human behavior)
-      const delay = randomDelay(5000, 15000);
-      await cancellableDelay(delay);
+      await waitBeforeNextRequest(reportProgress);
       if (!isScraping) {
         break;
       }
-      // saveAppState(); // Save state after each page
-    } catch (error: any) {
-      console.log('Error in person search:', error);
-      if (error.response && [401, 403].includes(error.response.status)) {
-        mainWindow?.webContents.send('request-new-cookies');
-        await waitForCookiesUpdate();
-        continue;
-      } else {
-        mainWindow?.webContents.send('error', `Error: ${error.message}`);
-        break;
+    } catch (error) {
+      if (!axios.isAxiosError(error)) {
+        throw error;
+      }
+      progress?.requestFailed();
+      reportProgress();
+      const outcome = await handleRequestError(apiType.endpoint, error, attempt, { page: state.page }, reportProgress);
+      if (outcome === 'retry') {
+        attempt += 1;
+      } else if (outcome === 'fail') {
+        const reason = failureReason(apiType.endpoint, error, attempt);
+        attempt = 1;
+        if (!(await recordFailures(reason, [{ kind: 'page', page: state.page }]))) {
+          return false;
+        }
+        advancePage(state);
+        await checkpointJob(output, seen);
+        await waitBeforeNextRequest(reportProgress);
       }
     }
   }
 
+  if (!isScraping) {
+    return true;
+  }
+
+  if (state.phase === 'search') {
+    state.phase = 'enrich';
+    await saveAppState();
+  }
+  reportProgress();
 
-  // Step 2: Fetch detailed contact info using viewContacts API
-  for (const personId of personIds) {
-    if (!isScraping || resultsCollected >= totalResults) {
-      console.log('Scraping stopped or all results collected.');
+  // Step 2: Fetch the detailed records from the enrichment endpoint
+  while (state.enrichIndex < enrichIds.length) {
+    if (!isScraping || state.resultsCollected >= totalResults) {
       break;
     }
 
-    const viewContactsPayload = {
-      contacts: [
-        {
-          personId: personId.toString(),
-        },
-      ],
-      creditSource: 'GROW',
-    };
+    // Pause once the job or this month has no credits left; the user raises a cap to continue
+    const allowance = getCreditAllowance(state.jobId, state.scrapeData);
+    const affordable = Math.floor(allowance.remaining / enrichment.creditsPerRecord);
+    if (affordable < 1) {
+      isPaused = true;
+      log('warn', 'pause', `Paused at the credit cap. ${allowance.limit}`);
+      mainWindow?.webContents.send('credit-cap-reached', `${allowance.limit} The job is paused.`);
+      await saveAppState();
+      await checkPaused();
+      continue;
+    }
 
+    const batch = enrichIds.slice(state.enrichIndex, state.enrichIndex + Math.min(batchSize, affordable));
+    const enrichPayload = enrichment.buildPayload(batch);
+
+    await waitForRequestSlot(reportProgress);
+    if (!isScraping) {
+      break;
+    }
 
     try {
-      const response = await axios.post(viewContactsUrl, viewContactsPayload, {
-        headers,
-        timeout: 30000,
+      progress?.requestSent();
+      await recordRequest();
+      log('debug', 'request', `POST ${enrichment.endpoint}`, { ids: batch });
+      const response = await axios.post(enrichUrl, enrichPayload, {
+        headers: requestHeaders(),
+        timeout: enrichment.timeout
       });
+      attempt = 1;
+      consecutiveFailures = 0;
       const data = response.data;
 
+      const records = enrichment.extractResults(data) || [];
+      log('info', 'response', `${response.status} ${enrichment.endpoint}`, { ids: batch, results: records.length });
 
-      const contacts = data?.data || [];
+      state.enrichIndex += batch.length;
+      await recordCredits(state.jobId, state.scrapeData, records.length * enrichment.creditsPerRecord);
 
-      if (!contacts || contacts.length === 0) {
-        console.log(`No contact data found for personId ${personId}`);
-        continue;
+      const returnedIds = records.map((record) => String(record[enrichment.idField]));
+      const missingIds = batch.filter((id) => !returnedIds.includes(String(id)));
+      if (missingIds.length > 0) {
+        log('warn', 'skip', `No ${enrichment.endpoint} data found for ${enrichment.idField} ${missingIds.join(', ')}`, {
+          ids: missingIds
+        });
+        for (const id of missingIds) {
+          failures?.record({
+            kind: 'record',
+            id: String(id),
+            reason: `No ${enrichment.endpoint} data returned`,
+            context: enrichContext[id]
+          });
+        }
       }
 
-      for (const contact of contacts) {
-        // Add social URLs
-        const socialUrls = socialUrlsMap[personId] || {};
-        contact.LinkedIn = socialUrls.linkedin || '';
-        contact.Facebook = socialUrls.facebook || '';
-        contact.Twitter = socialUrls.twitter || '';
-        contact.Instagram = socialUrls.instagram || '';
-
-        const csvRow = transformResultToCsvRow('Contact Search', contact);
-        csvStringifier.write(csvRow);
-        resultsCollected += 1;
-
-        if (!isScraping || resultsCollected >= totalResults) {
+      const written: number[] = [];
+      for (const [index, record] of records.entries()) {
+        // Responses for a batch are matched back to each record's search data by ID
+        const recordId = String(record[enrichment.idField]);
+        const context = enrichContext[recordId] || {};
+        const merged = enrichment.merge ? enrichment.merge(record, context) : record;
+
+        await rememberSampleResult(apiType.name, merged);
+        await output.write(layout.toRow(merged));
+        seen.markSeen(recordId);
+        failures?.resolve('record', recordId);
+        written.push(index);
+        state.resultsCollected += 1;
+
+        if (!isScraping || state.resultsCollected >= totalResults) {
           break;
         }
       }
+      await archive?.record({
+        kind: 'enrich',
+        ids: batch.map(String),
+        context: batch.reduce((context, id) => ({ ...context, [id]: enrichContext[id] || {} }), {}),
+        written,
+        data
+      });
+
+      await checkpointJob(output, seen); // Save state after each enrichment call
 
       apiCallsCompleted += 1;
-      const progressPercentage = Math.min(
-        (apiCallsCompleted / totalApiCalls) * 100,
-        100
-      );
-      mainWindow?.webContents.send('progress-update', {
-        progressPercentage,
-      });
+      reportProgress();
 
-      if (!isScraping || resultsCollected >= totalResults) {
+      if (!isScraping || state.resultsCollected >= totalResults) {
         break;
       }
 
-      // Delay between requests (simulate human behavior)
-      const delay = randomDelay(5000, 15000);
-      await cancellableDelay(delay);
+      await waitBeforeNextRequest(reportProgress);
 
       // Check if scraping is paused after the delay
       await checkPaused();
@@ -497,48 +1517,139 @@ async function handleContactSearch(
       if (!isScraping) {
         break;
       }
-    } catch (error: any) {
-      console.log('Error fetching viewContacts:', error);
-      if (error.response && [401, 403].includes(error.response.status)) {
-        mainWindow?.webContents.send('request-new-cookies');
-        await waitForCookiesUpdate();
-        continue;
-      } else {
-        mainWindow?.webContents.send('error', `Error: ${error.message}`);
-        break;
+    } catch (error) {
+      if (!axios.isAxiosError(error)) {
+        throw error;
+      }
+      progress?.requestFailed();
+      reportProgress();
+      const outcome = await handleRequestError(enrichment.endpoint, error, attempt, { ids: batch }, reportProgress);
+      if (outcome === 'retry') {
+        attempt += 1;
+      } else if (outcome === 'fail') {
+        const reason = failureReason(enrichment.endpoint, error, attempt);
+        attempt = 1;
+        const failedRecords = batch.map((id) => ({
+          kind: 'record' as const,
+          id: String(id),
+          context: enrichContext[id]
+        }));
+        if (!(await recordFailures(reason, failedRecords))) {
+          return false;
+        }
+        state.enrichIndex += batch.length;
+        await checkpointJob(output, seen);
+        await waitBeforeNextRequest(reportProgress);
+        await checkPaused();
       }
     }
   }
+  return true;
 }
 
-async function checkPaused() {
-  if (isPaused) {
-    await new Promise((resolve) => {
-      const interval = setInterval(() => {
-        if (!isPaused) {
-          clearInterval(interval);
-          resolve(true);
-        }
-      }, 1000);
-    });
+function logRequestError(endpoint: string, error: AxiosError, details: Record<string, unknown>) {
+  const status = error.response?.status;
+  if (status === 401 || status === 403) {
+    log('warn', 'cookies', `${status} ${endpoint}: the session has expired, waiting for new cookies`, details);
+  } else {
+    log('error', 'response', `${status || error.code || 'Request failed'} ${endpoint}: ${error.message}`, details);
   }
 }
 
-function cancellableDelay(ms: number): Promise<void> {
-  return new Promise<void>((resolve) => {
-    const timeout = setTimeout(() => {
-      delayCancel = null;
-      resolve();
-    }, ms);
-    delayCancel = () => {
-      clearTimeout(timeout);
-      delayCancel = null;
-      resolve(); // Proceed immediately
+/**
+ * Sends the first search request of a job with its cookies, outside of any job, to find out
+ * whether the session works before a long run depends on it. Search requests spend no credits.
+ */
+async function testSession(data: ScrapeData): Promise<SessionTestResult> {
+  let definition: ApiTypeDefinition;
+  let headers: Record<string, string>;
+  let testPayload: ApiRecord;
+  try {
+    definition = getApiType(data.apiType);
+    headers = extractHeadersFromCookies(data.cookies);
+    checkPagination(definition, data.payload);
+    testPayload = withPage(definition, data.payload, getFirstPage(definition, data.payload, data.startIdx).page);
+  } catch (error) {
+    return { ok: false, message: (error as Error).message };
+  }
+
+  try {
+    await recordRequest();
+    log('info', 'cookies', `Testing the session with POST ${definition.endpoint}`);
+    const response = await axios.post(getApiUrl(definition.endpoint), testPayload, { headers, timeout: 30000 });
+    const results = extractResults(definition, response.data).length;
+    log('info', 'cookies', `The session works: ${response.status} ${definition.endpoint}`, { results });
+    return {
+      ok: true,
+      status: response.status,
+      message: `The session works: ${definition.name} returned ${results} results for the first page.`
     };
-  });
+  } catch (error) {
+    if (!axios.isAxiosError(error)) {
+      return { ok: false, message: `The test request failed: ${(error as Error).message}` };
+    }
+    const status = error.response?.status;
+    log('warn', 'cookies', `Session test failed: ${status || error.code || error.message}`);
+    if (status === 401 || status === 403) {
+      return { ok: false, status, message: `The session has expired or the cookies are not valid (${status}).` };
+    }
+    return { ok: false, status, message: `The test request failed: ${error.message}` };
+  }
 }
 
-function extractHeadersFromCookies(cookies: any[]): Record<string, string> {
+// "POST /profiles/graphql/personSearch (page 3)" for the cookie renewal dialog
+function describeRequest(endpoint: string, details: Record<string, unknown>): string {
+  if (details.page !== undefined) return `POST ${endpoint} (page ${details.page})`;
+  if (Array.isArray(details.ids)) return `POST ${endpoint} (${details.ids.length} records)`;
+  return `POST ${endpoint}`;
+}
+
+/**
+ * Decides how a scrape loop continues after a failed request. An expired session waits for
+ * new cookies ('renewed'), and stops the job when none arrive in time ('stopped'); timeouts,
+ * 429 and 5xx responses wait out the backoff delay and are retried ('retry') until the
+ * attempts run out; anything else gives up on the request ('fail').
+ */
+async function handleRequestError(
+  endpoint: string,
+  error: AxiosError,
+  attempt: number,
+  details: Record<string, unknown>,
+  onWait: () => void
+): Promise<'renewed' | 'stopped' | 'retry' | 'fail'> {
+  logRequestError(endpoint, error, details);
+
+  const status = error.response?.status;
+  if (status === 401 || status === 403) {
+    return renewCookies(endpoint, status, details, onWait);
+  }
+
+  const policy = getSettings();
+  if (!isRetryable(error) || attempt >= policy.retryMaxAttempts) {
+    return 'fail';
+  }
+
+  const delay = retryDelay(attempt, error, policy);
+  log(
+    'warn',
+    'retry',
+    `Retrying ${endpoint} in ${Math.ceil(delay / 1000)}s (attempt ${attempt + 1} of ${policy.retryMaxAttempts})`,
+    details
+  );
+  progress?.delayStarted(delay);
+  onWait();
+  await cancellableDelay(delay);
+  return 'retry';
+}
+
+// Accepts the cookies in any format the cookie input supports
+function extractHeadersFromCookies(cookieInput: unknown): Record<string, string> {
+  const cookies = toCookieList(cookieInput);
+  const missing = findMissingCookies(cookies);
+  if (missing.length > 0) {
+    throw new Error(missingCookiesMessage(missing));
+  }
+
   const cookieDict: Record<string, string> = {};
   for (const cookie of cookies) {
     cookieDict[cookie.name] = cookie.value;
@@ -553,26 +1664,26 @@ function extractHeadersFromCookies(cookies: any[]): Record<string, string> {
   const ziid = decodeURIComponent(ziidRaw).replace(/^"|"$/g, '');
   const zisession = decodeURIComponent(zisessionRaw).replace(/^"|"$/g, '');
 
-
-  if (!userId || !ziaccesstoken || !ziid || !zisession) {
-    throw new Error('Missing required cookies.');
+  if (!ziid || !zisession) {
+    throw new Error(missingCookiesMessage([!ziid ? 'ziid' : '', !zisession ? 'zisession' : ''].filter(Boolean)));
   }
 
   const cookieHeader = cookies.map(cookie => `${cookie.name}=${cookie.value}`).join('; ');
+  const baseUrl = new URL(getBaseUrl());
 
   return {
-    "authority": "app.zoominfo.com",
+    "authority": baseUrl.host,
     "method": "POST",
-    "scheme": "https",
+    "scheme": baseUrl.protocol.replace(':', ''),
     "accept": "application/json, text/plain, */*",
     "accept-encoding": "gzip, deflate, br, zstd",
     "accept-language": "en-US,en;q=0.9",
     "apollographql-client-name": "AiEmailPersonClient",
     "cache-control": "no-cache",
     "content-type": "application/json",
-    "origin": "https://app.zoominfo.com",
+    "origin": baseUrl.origin,
     "pragma": "no-cache",
-    "referer": "https://app.zoominfo.com/",
+    "referer": `${baseUrl.origin}/`,
     "sec-ch-ua": '"Not)A;Brand";v="99", "Google Chrome";v="127", "Chromium";v="127"',
     "sec-ch-ua-mobile": "?0",
     "sec-ch-ua-platform": '"macOS"',
@@ -591,197 +1702,59 @@ function extractHeadersFromCookies(cookies: any[]): Record<string, string> {
   };
 }
 
-function getApiUrl(apiType: string): string {
-  switch (apiType) {
-    case 'Company Search':
-      return 'https://app.zoominfo.com/profiles/graphql/companySearch';
-    case 'Person Search':
-      return 'https://app.zoominfo.com/profiles/graphql/personSearch';
-    case 'Scoops Search':
-      return 'https://app.zoominfo.com/profiles/graphql/scoopsAdvancedSearch';
-    default:
-      throw new Error('Unknown API type.');
-  }
-}
-
-function extractResults(apiType: string, data: any): any[] {
-  // Extract results based on API type
-  switch (apiType) {
-    case 'Company Search':
-      return data?.data?.companySearch?.data || [];
-    case 'Person Search':
-      return data?.data?.personSearch?.data || [];
-    case 'Scoops Search':
-      return data?.data?.scoopsAdvancedSearch?.data || [];
-    default:
-      return [];
-  }
-}
-
-function transformResultToCsvRow(apiType: string, result: any): Record<string, any> {
-  // Transform result object into CSV row based on API type
-  switch (apiType) {
-    case 'Company Search': {
-      const location = result.location || {};
-      const topLevelIndustry = result.topLevelIndustry || [];
-      return {
-        'Company ID': result.companyID || '',
-        'Company Name': result.companyName || '',
-        'Company Domain': result.companyDomain || '',
-        'Company Type': result.companyType || '',
-        'Company Phone': result.companyPhone || '',
-        'Revenue': result.revenue || '',
-        'Employees': result.employees || '',
-        'Top Level Industry 0': topLevelIndustry[0] || '',
-        'Top Level Industry 1': topLevelIndustry[1] || '',
-        'Website': result.website || '',
-        'Company Description': result.companyDescription || '',
-        'City': location.City || '',
-        'Country Code': location.CountryCode || '',
-        'State': location.State || '',
-        'Street': location.Street || '',
-        'Zip': location.Zip || '',
-      };
-    }
-    case 'Person Search': {
-      const socialUrlsParsed = result.socialUrlsParsed || {};
-      const location = result.location || {};
-      const employmentHistory = result.employmentHistory || [{}];
-      const employmentHistory0 = employmentHistory[0] || {};
-      return {
-        'First Name': result.firstName || '',
-        'Last Name': result.lastName || '',
-        'Job Title': result.jobTitle || '',
-        'LinkedIn': socialUrlsParsed.linkedin || '',
-        'Facebook': socialUrlsParsed.facebook || '',
-        'Twitter': socialUrlsParsed.twitter || '',
-        'Instagram': socialUrlsParsed.instagram || '',
-        'Metro Area': location.metroArea || '',
-        'City': location.City || '',
-        'State': location.State || '',
-        'Street': location.Street || '',
-        'Zip': location.Zip || '',
-        'Country Code': location.CountryCode || '',
-        'Company Domain': result.companyDomain || '',
-        'Company Name': result.companyName || '',
-        'Company Phone': result.companyPhone || '',
-        'Company Revenue': result.companyRevenue || '',
-        'Company Website 0': employmentHistory0.companyWebsite || '',
-        'Company Description': result.companyDescription || '',
-      };
-    }
-    case 'Contact Search': {
-      const companyAddress = result.companyAddress || {};
-      const location = result.location || {};
-      const topLevelIndustry = result.topLevelIndustry || [];
-      return {
-        'Person ID': result.personID || '',
-        'First Name': result.firstName || '',
-        'Middle Initial': result.middleInitial || '',
-        'Last Name': result.lastName || '',
-        'Company': result.title || '',
-        'Job Title': result.jobTitle || '',
-        'Person Phone': result.phone || '',
-        'Business Email': result.personalEmail || '',
-        'Person Email': result.email || '',
-        'LinkedIn': result.LinkedIn || '',
-        'Facebook': result.Facebook || '',
-        'Twitter': result.Twitter || '',
-        'Instagram': result.Instagram || '',
-        'Person Street': location.Street || '',
-        'Person City': location.City || '',
-        'Person State': location.State || '',
-        'Person Zip': location.Zip || '',
-        'Person Country': location.CountryCode || '',
-        'Person Metro Area': location.metroArea || '',
-        'Company ID': result.companyID || '',
-        'Company Name': result.companyName || '',
-        'Company Revenue': result.companyRevenue || '',
-        'Company Employees': result.companyEmployees || '',
-        'Company Domain': result.companyDomain || '',
-        'Company Website': result.website || '',
-        'Company Description': result.companyDescription || '',
-        'Company Phone': result.companyPhone || '',
-        'Company Ticker': result.companyTicker || '',
-        'Top Level Industry': topLevelIndustry[0] || '',
-        'Company Type': result.companyType || '',
-        'Company Street': companyAddress.Street || '',
-        'Company City': companyAddress.City || '',
-        'Company State': companyAddress.State || '',
-        'Company Zip': companyAddress.Zip || '',
-        'Company Country': companyAddress.CountryCode || '',
-        'Confidence Score': result.confidenceScore || '',
-      };
-    }
-    case 'Scoops Search': {
-      const companyRecord = result.companyRecord || {};
-      const scoopTypes = result.scoopTypes?.scoopType || [];
-      const scoopTopics = result.scoopTopics?.scoopTopic || [];
-
-      // Map scoop types and topics
-      const scoopTypeMapping: { [key: string]: string } = {
-        '11': 'Open Position',
-        '21': 'Project',
-        '20': 'Painpoint',
-        '4': 'Mergers & Acquisitions',
-        '9': 'Product Launch',
-      };
-      const scoopTopicMapping: { [key: string]: string } = {
-        '50': 'Application Development',
-        '115': 'Enterprise Architecture',
-        '226': 'Artificial Intelligence',
-        '61': 'Product Development',
-        '41': 'Spending/Investment',
-        '105': 'Contingent Workforce',
-        '116': 'Financial Planning',
-        '54': 'Request for Proposal',
-      };
-      const scoopTypeNames = scoopTypes
-        .map((type: string) => scoopTypeMapping[type.toString()] || 'Unknown')
-        .join(', ');
-      const scoopTopicNames = scoopTopics
-        .map((topic: string) => scoopTopicMapping[topic.toString()] || 'Unknown')
-        .join(', ');
-
-      return {
-        'Published Date': result.publishedDate || '',
-        'Company ID': companyRecord.companyID || '',
-        'Company Name': companyRecord.companyName || '',
-        'Company Domain': companyRecord.companyDomain || '',
-        'Website': companyRecord.website || '',
-        'Description': result.description || '',
-        'Scoop ID': result.scoopId || '',
-        'Scoop Type': scoopTypeNames || '',
-        'Scoop Topic': scoopTopicNames || '',
-      };
-    }
-    default:
-      return {};
-  }
-}
-
-function setPageInPayload(payload: any, page: number) {
-  if (typeof payload === 'object') {
-    for (const key in payload) {
-      if (key.toLowerCase() === 'page') {
-        payload[key] = page;
+/**
+ * Resolves true once 'update-cookies' applied new cookies, false on a stop or after `timeoutMs`.
+ * Rejects when the cookies sent are unusable.
+ */
+function waitForCookiesUpdate(timeoutMs: number): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => cookieRenewal?.(false), timeoutMs);
+    cookieRenewal = (renewed) => {
+      clearTimeout(timeout);
+      cookieRenewal = null;
+      if (renewed instanceof Error) {
+        reject(renewed);
       } else {
-        setPageInPayload(payload[key], page);
+        resolve(renewed);
       }
-    }
-  }
+    };
+  });
 }
 
-async function waitForCookiesUpdate() {
-  return new Promise((resolve) => {
-    ipcMain.once('update-cookies', (_event, newCookies) => {
-      if (scrapeData) {
-        scrapeData.cookies = newCookies;
-        scrapeData.headers = extractHeadersFromCookies(newCookies);
-      }
-      resolve(true);
-    });
-  });
+/**
+ * Pauses the job on an expired session and asks the renderer for new cookies. When nobody
+ * renews them within the configured time the queue is halted like a stop by the user, so the
+ * checkpoint is kept and the job can be resumed later.
+ */
+async function renewCookies(
+  endpoint: string,
+  status: number,
+  details: Record<string, unknown>,
+  onWait: () => void
+): Promise<'renewed' | 'stopped'> {
+  const { cookieRenewalTimeoutMs } = getSettings();
+  const request: CookieRenewalRequest = {
+    request: describeRequest(endpoint, details),
+    status,
+    deadline: new Date(Date.now() + cookieRenewalTimeoutMs).toISOString()
+  };
+  progress?.delayStarted(cookieRenewalTimeoutMs, 'waiting for new cookies');
+  onWait();
+  mainWindow?.webContents.send('request-new-cookies', request);
+
+  if (await waitForCookiesUpdate(cookieRenewalTimeoutMs)) {
+    log('info', 'retry', `Retrying ${endpoint} with the new cookies`, details);
+    return 'renewed';
+  }
+  if (isScraping) {
+    const minutes = Math.round(cookieRenewalTimeoutMs / 60000);
+    const message = `No new cookies arrived within ${minutes} minutes, so the job was stopped. It can be resumed from its checkpoint.`;
+    log('warn', 'cookies', message, details);
+    haltQueue = true;
+    stopCurrentJob();
+    mainWindow?.webContents.send('cookie-renewal-timed-out', message);
+  }
+  return 'stopped';
 }
 
 function randomDelay(min: number, max: number): number {
@@ -0,0 +1,119 @@
+// electron/jobPresets.ts
+
+import fs from 'fs';
+import storage from 'node-persist';
+import { JobPreset } from './preload';
+import { getApiType } from './apiTypes';
+
+// Written by exportJobPresets; files from a newer version of the app are refused
+const PRESET_FILE_VERSION = 1;
+
+let presets: JobPreset[] = [];
+
+function generatePresetId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export async function loadJobPresets(): Promise<JobPreset[]> {
+  presets = (await storage.getItem('jobPresets')) || [];
+  return presets;
+}
+
+export function getJobPresets(): JobPreset[] {
+  return presets;
+}
+
+async function persistPresets() {
+  await storage.setItem('jobPresets', presets);
+}
+
+function validatePreset(preset: JobPreset) {
+  if (typeof preset?.name !== 'string' || !preset.name.trim()) {
+    throw new Error('The preset needs a name.');
+  }
+  getApiType(preset.apiType);
+}
+
+// Tags are compared without case, so "Leads" and "leads" are one tag
+function normalizeTags(tags: string[] = []): string[] {
+  return tags
+    .map((tag) => tag.trim())
+    .filter((tag, index, all) => tag && all.findIndex((other) => other.toLowerCase() === tag.toLowerCase()) === index);
+}
+
+function normalizePreset(preset: JobPreset, id: string): JobPreset {
+  return {
+    ...preset,
+    id,
+    name: preset.name.trim(),
+    tags: normalizeTags(preset.tags),
+    cookies: preset.cookies && preset.cookies.length > 0 ? preset.cookies : undefined,
+    updatedAt: new Date().toISOString()
+  };
+}
+
+export async function saveJobPreset(preset: JobPreset): Promise<JobPreset> {
+  validatePreset(preset);
+  const saved = normalizePreset(preset, preset.id || generatePresetId());
+  presets = presets.some((existing) => existing.id === saved.id)
+    ? presets.map((existing) => (existing.id === saved.id ? saved : existing))
+    : [...presets, saved];
+  await persistPresets();
+  return saved;
+}
+
+export async function duplicateJobPreset(id: string): Promise<JobPreset> {
+  const preset = presets.find((existing) => existing.id === id);
+  if (!preset) {
+    throw new Error('The preset no longer exists.');
+  }
+  return saveJobPreset({ ...preset, id: '', name: `${preset.name} (copy)` });
+}
+
+export async function deleteJobPreset(id: string) {
+  presets = presets.filter((preset) => preset.id !== id);
+  await persistPresets();
+}
+
+/**
+ * Writes presets to a JSON file for sharing. Saved cookies are left out unless asked for,
+ * since the file may be passed around the team.
+ */
+export async function exportJobPresets(ids: string[], filePath: string, includeCookies: boolean) {
+  const exported = presets
+    .filter((preset) => ids.includes(preset.id))
+    .map((preset) => (includeCookies ? preset : { ...preset, cookies: undefined }));
+  await fs.promises.writeFile(
+    filePath,
+    JSON.stringify({ version: PRESET_FILE_VERSION, presets: exported }, null, 2),
+    'utf8'
+  );
+}
+
+// Adds the presets of an exported file as new presets; returns how many were added
+export async function importJobPresets(filePath: string): Promise<number> {
+  let data: { version?: number; presets?: JobPreset[] } | null;
+  try {
+    data = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`The preset file could not be read: ${(error as Error).message}`);
+  }
+  const filePresets = data?.presets;
+  if (!Array.isArray(filePresets)) {
+    throw new Error('The file does not contain job presets.');
+  }
+  if ((data?.version || 0) > PRESET_FILE_VERSION) {
+    throw new Error('The presets were exported by a newer version of the app.');
+  }
+  filePresets.forEach((preset, index) => {
+    try {
+      validatePreset(preset);
+    } catch (error) {
+      throw new Error(`Preset ${index + 1} in the file: ${(error as Error).message}`);
+    }
+  });
+  const imported = filePresets.map((preset) => normalizePreset(preset, generatePresetId()));
+  presets = [...presets, ...imported];
+  await persistPresets();
+  return imported.length;
+}
@@ -0,0 +1,94 @@
+// electron/jobQueue.ts
+
+import storage from 'node-persist';
+import { BrowserCookie, JobStatus, QueuedJob, ScrapeData } from './preload';
+
+let jobs: QueuedJob[] = [];
+
+function generateJobId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export async function loadQueue(): Promise<QueuedJob[]> {
+  jobs = (await storage.getItem('jobQueue')) || [];
+  // A job still marked as running was cut off by a crash or restart
+  jobs = jobs.map((job) => (job.status === 'running' ? { ...job, status: 'stopped' } : job));
+  return jobs;
+}
+
+export async function saveQueue() {
+  await storage.setItem('jobQueue', jobs);
+}
+
+export function getJobs(): QueuedJob[] {
+  return jobs;
+}
+
+export function getJob(id: string): QueuedJob | undefined {
+  return jobs.find((job) => job.id === id);
+}
+
+export function addJob(scrapeData: ScrapeData): QueuedJob {
+  const job: QueuedJob = {
+    id: generateJobId(),
+    scrapeData,
+    status: 'pending',
+    resultsCollected: 0,
+    addedAt: new Date().toISOString()
+  };
+  jobs.push(job);
+  return job;
+}
+
+export function updateJob(id: string, changes: Partial<QueuedJob>) {
+  jobs = jobs.map((job) => (job.id === id ? { ...job, ...changes } : job));
+}
+
+/**
+ * Moves a job one slot up (-1) or down (1) in the queue.
+ */
+export function moveJob(id: string, direction: -1 | 1) {
+  const index = jobs.findIndex((job) => job.id === id);
+  const target = index + direction;
+  if (index === -1 || target < 0 || target >= jobs.length) return;
+  const reordered = [...jobs];
+  [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+  jobs = reordered;
+}
+
+export function moveJobToFront(id: string) {
+  const job = getJob(id);
+  if (!job) return;
+  jobs = [job, ...jobs.filter((other) => other.id !== id)];
+}
+
+export function removeJob(id: string) {
+  jobs = jobs.filter((job) => job.id !== id);
+}
+
+const retryableStatuses: JobStatus[] = ['failed', 'cancelled', 'stopped'];
+
+export function canRetryJob(job: QueuedJob): boolean {
+  return retryableStatuses.includes(job.status);
+}
+
+// A failed or stopped job keeps its checkpoint, which its own retry resumes from instead
+const failureRetryStatuses: JobStatus[] = ['completed', 'cancelled'];
+
+export function canRetryFailures(job: QueuedJob): boolean {
+  return failureRetryStatuses.includes(job.status) && Boolean(job.failures);
+}
+
+export function nextPendingJob(): QueuedJob | undefined {
+  return jobs.find((job) => job.status === 'pending');
+}
+
+/**
+ * Gives every job that has not run yet the renewed cookies, so the rest of the queue
+ * does not stall on the same expired session.
+ */
+export function updatePendingCookies(cookies: BrowserCookie[], headers: Record<string, string>) {
+  jobs = jobs.map((job) =>
+    job.status === 'pending' ? { ...job, scrapeData: { ...job.scrapeData, cookies, headers } } : job
+  );
+}
@@ -0,0 +1,337 @@
+// electron/outputSinks.ts
+
+import { once } from 'events';
+import fs from 'fs';
+import path from 'node:path';
+import readline from 'readline';
+import { Options as StringifyOptions, stringify } from 'csv-stringify';
+import { parse } from 'csv-parse';
+import ExcelJS from 'exceljs';
+import initSqlJs from 'sql.js';
+import { OutputFileInfo, OutputFormat } from './preload';
+
+/**
+ * Destination for scraped rows. `flush` is called before every checkpoint so that what is
+ * on disk matches the checkpoint a resumed job continues from.
+ */
+export type OutputSink = {
+  write: (row: Record<string, unknown>) => Promise<void>;
+  flush: () => Promise<void>;
+  close: () => Promise<void>;
+};
+
+export type OutputSinkOptions = {
+  // Continue an existing file instead of replacing it
+  append: boolean;
+  // Columns in output order; an existing file must have the same header to be appended to
+  columns: string[];
+  // Column that identifies a record; the SQLite sink upserts on it
+  idColumn: string;
+  // Table the SQLite sink writes to, so one database can hold several API types
+  tableName: string;
+};
+
+const formatExtensions: Record<OutputFormat, string[]> = {
+  csv: ['.csv'],
+  jsonl: ['.jsonl', '.ndjson'],
+  xlsx: ['.xlsx'],
+  sqlite: ['.sqlite', '.sqlite3', '.db']
+};
+
+// Filters offered by the save dialog, in the same order
+export const saveDialogFilters = [
+  { name: 'CSV Files', extensions: ['csv'] },
+  { name: 'JSON Lines', extensions: ['jsonl', 'ndjson'] },
+  { name: 'Excel Workbook', extensions: ['xlsx'] },
+  { name: 'SQLite Database', extensions: ['sqlite', 'sqlite3', 'db'] }
+];
+
+export function getOutputFormat(savePath: string): OutputFormat {
+  const extension = path.extname(savePath).toLowerCase();
+  const format = (Object.keys(formatExtensions) as OutputFormat[]).find((candidate) =>
+    formatExtensions[candidate].includes(extension)
+  );
+  if (!format) {
+    throw new Error(`Unsupported output file type "${extension || savePath}". Use .csv, .jsonl, .xlsx or .sqlite.`);
+  }
+  return format;
+}
+
+function readCsvHeader(savePath: string): Promise<string[] | null> {
+  return new Promise((resolve, reject) => {
+    const parser = parse({ to_line: 1 }, (error, records: string[][]) => {
+      if (error) reject(error);
+      else resolve(records[0] || null);
+    });
+    fs.createReadStream(savePath, { start: 0, end: 64 * 1024 - 1 }).pipe(parser);
+  });
+}
+
+async function readXlsxHeader(savePath: string): Promise<string[] | null> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.readFile(savePath);
+  const worksheet = workbook.getWorksheet('Results');
+  if (!worksheet || worksheet.rowCount === 0) return null;
+  const headerValues = worksheet.getRow(1).values as ExcelJS.CellValue[];
+  return headerValues.slice(1).map((value) => String(value ?? ''));
+}
+
+/**
+ * Header of an existing output file, or null when the file is empty or its format has no
+ * header row (JSON Lines, SQLite).
+ */
+async function readExistingColumns(savePath: string, format: OutputFormat): Promise<string[] | null> {
+  if (!fs.existsSync(savePath) || fs.statSync(savePath).size === 0) return null;
+  if (format === 'csv') return readCsvHeader(savePath);
+  if (format === 'xlsx') return readXlsxHeader(savePath);
+  return null;
+}
+
+function describeColumnMismatch(existing: string[], expected: string[]): string {
+  const missing = expected.filter((column) => !existing.includes(column));
+  const extra = existing.filter((column) => !expected.includes(column));
+  const details = [
+    missing.length > 0 ? `missing ${missing.join(', ')}` : '',
+    extra.length > 0 ? `unexpected ${extra.join(', ')}` : '',
+    missing.length === 0 && extra.length === 0 ? 'columns are in a different order' : ''
+  ]
+    .filter(Boolean)
+    .join('; ');
+  return `The existing file's header does not match the output columns (${details}).`;
+}
+
+async function assertColumnsMatch(savePath: string, format: OutputFormat, columns: string[]) {
+  const existing = await readExistingColumns(savePath, format);
+  if (existing && existing.join('\u0000') !== columns.join('\u0000')) {
+    throw new Error(describeColumnMismatch(existing, columns));
+  }
+}
+
+/**
+ * Tells the renderer whether the chosen file exists and whether a job can append to it.
+ */
+export async function inspectOutputFile(savePath: string, columns: string[]): Promise<OutputFileInfo> {
+  let format: OutputFormat;
+  try {
+    format = getOutputFormat(savePath);
+  } catch (error) {
+    return { exists: fs.existsSync(savePath), canAppend: false, message: (error as Error).message };
+  }
+  if (!fs.existsSync(savePath)) {
+    return { exists: false, format, canAppend: false, message: 'A new file will be created.' };
+  }
+  if (format === 'sqlite') {
+    return { exists: true, format, canAppend: true, message: 'Rows will be upserted into the existing database.' };
+  }
+  try {
+    await assertColumnsMatch(savePath, format, columns);
+    return { exists: true, format, canAppend: true, message: 'The file exists and its columns match.' };
+  } catch (error) {
+    return { exists: true, format, canAppend: false, message: (error as Error).message };
+  }
+}
+
+// Resolves once everything written so far has been handed to the file
+function drainStream(stream: fs.WriteStream): Promise<void> {
+  return new Promise((resolve, reject) => {
+    stream.write('', (error) => (error ? reject(error) : resolve()));
+  });
+}
+
+function endStream(stream: fs.WriteStream): Promise<void> {
+  return new Promise((resolve, reject) => {
+    stream.once('error', reject);
+    stream.end(() => resolve());
+  });
+}
+
+function toCsv(records: Record<string, unknown>[], options: StringifyOptions): Promise<string> {
+  return new Promise((resolve, reject) => {
+    stringify(records, options, (error, output) => (error ? reject(error) : resolve(output)));
+  });
+}
+
+async function openCsvSink(savePath: string, { append, columns }: OutputSinkOptions): Promise<OutputSink> {
+  // The header row is only written when the file does not have one yet
+  const hasContent = append && fs.existsSync(savePath) && fs.statSync(savePath).size > 0;
+  if (hasContent) {
+    await assertColumnsMatch(savePath, 'csv', columns);
+  }
+  const writeStream = fs.createWriteStream(savePath, { flags: append ? 'a' : 'w' });
+  // Rows are turned into CSV as they are written, so flushing the file stream flushes every row
+  if (!hasContent) {
+    writeStream.write(await toCsv([], { header: true, columns }));
+  }
+
+  return {
+    write: async (row) => {
+      writeStream.write(await toCsv([row], { columns }));
+    },
+    flush: () => drainStream(writeStream),
+    close: () => endStream(writeStream)
+  };
+}
+
+function openJsonLinesSink(savePath: string, { append }: OutputSinkOptions): OutputSink {
+  const writeStream = fs.createWriteStream(savePath, { flags: append ? 'a' : 'w' });
+
+  return {
+    write: async (row) => {
+      writeStream.write(`${JSON.stringify(row)}\n`);
+    },
+    flush: () => drainStream(writeStream),
+    close: () => endStream(writeStream)
+  };
+}
+
+// Spooled rows of a workbook that is still being written
+function getXlsxSpoolPath(savePath: string): string {
+  return `${savePath}.rows.jsonl`;
+}
+
+/**
+ * Writes the workbook in one go with exceljs' streaming writer: the rows it already holds
+ * when `keepExisting`, then the rows spooled to `spoolPath`. It goes to a temporary file
+ * first, so a crash never leaves a half-written workbook.
+ */
+async function writeXlsx(savePath: string, columns: string[], keepExisting: boolean, spoolPath?: string) {
+  const existing = new ExcelJS.Workbook();
+  if (keepExisting && fs.existsSync(savePath)) {
+    await existing.xlsx.readFile(savePath);
+  }
+
+  const tempPath = `${savePath}.tmp`;
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ filename: tempPath });
+  const worksheet = workbook.addWorksheet('Results');
+  const header = worksheet.addRow(columns);
+  header.font = { bold: true };
+  header.commit();
+
+  existing.getWorksheet('Results')?.eachRow((row, rowNumber) => {
+    if (rowNumber > 1) worksheet.addRow((row.values as unknown[]).slice(1)).commit();
+  });
+
+  if (spoolPath && fs.existsSync(spoolPath)) {
+    const lines = readline.createInterface({ input: fs.createReadStream(spoolPath), crlfDelay: Infinity });
+    lines.on('line', (line) => {
+      let row: Record<string, unknown>;
+      try {
+        row = JSON.parse(line);
+      } catch (error) {
+        // An empty line, or one a crash cut off
+        return;
+      }
+      worksheet.addRow(columns.map((column) => row[column] ?? '')).commit();
+    });
+    await once(lines, 'close');
+  }
+
+  worksheet.commit();
+  await workbook.commit();
+  fs.renameSync(tempPath, savePath);
+}
+
+/**
+ * Rewriting the whole workbook gets slower with every row, so rows are spooled to a JSON
+ * Lines file next to it, which `flush` keeps on disk, and the workbook is written once on
+ * close. A spool left behind by a job that crashed is kept when the job resumes.
+ */
+async function openXlsxSink(savePath: string, options: OutputSinkOptions): Promise<OutputSink> {
+  const { append, columns } = options;
+  if (append && fs.existsSync(savePath)) {
+    await assertColumnsMatch(savePath, 'xlsx', columns);
+  } else {
+    // A new job replaces the workbook right away, so a resumed one does not keep its old rows
+    await writeXlsx(savePath, columns, false);
+  }
+  const spoolPath = getXlsxSpoolPath(savePath);
+  const spool = openJsonLinesSink(spoolPath, options);
+
+  return {
+    write: (row) => spool.write(row),
+    flush: () => spool.flush(),
+    close: async () => {
+      await spool.close();
+      await writeXlsx(savePath, columns, true, spoolPath);
+      await fs.promises.rm(spoolPath, { force: true });
+    }
+  };
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+async function openSqliteSink(savePath: string, { idColumn, tableName }: OutputSinkOptions): Promise<OutputSink> {
+  const SQL = await initSqlJs();
+  // Rows are upserted, so an existing database is always kept, whether appending or not
+  const db = fs.existsSync(savePath) ? new SQL.Database(fs.readFileSync(savePath)) : new SQL.Database();
+  const table = quoteIdentifier(tableName);
+  db.run(`CREATE TABLE IF NOT EXISTS ${table} (${quoteIdentifier(idColumn)} TEXT PRIMARY KEY)`);
+
+  const existingColumns = new Set<string>(
+    (db.exec(`PRAGMA table_info(${table})`)[0]?.values || []).map((column) => String(column[1]))
+  );
+
+  let dirty = false;
+
+  const flush = async () => {
+    if (!dirty) return;
+    // Write to a temporary file first so a crash never leaves a half-written database
+    const tempPath = `${savePath}.tmp`;
+    fs.writeFileSync(tempPath, Buffer.from(db.export()));
+    fs.renameSync(tempPath, savePath);
+    dirty = false;
+  };
+
+  return {
+    write: async (row) => {
+      const columns = Object.keys(row);
+      columns
+        .filter((column) => !existingColumns.has(column))
+        .forEach((column) => {
+          db.run(`ALTER TABLE ${table} ADD COLUMN ${quoteIdentifier(column)} TEXT`);
+          existingColumns.add(column);
+        });
+
+      const columnList = columns.map(quoteIdentifier).join(', ');
+      const placeholders = columns.map(() => '?').join(', ');
+      const updates = columns
+        .filter((column) => column !== idColumn)
+        .map((column) => `${quoteIdentifier(column)} = excluded.${quoteIdentifier(column)}`)
+        .join(', ');
+      const conflict = updates ? `DO UPDATE SET ${updates}` : 'DO NOTHING';
+
+      // A record without an ID is stored with a NULL one, which SQLite never counts as a conflict,
+      // so such rows are all kept instead of overwriting each other
+      db.run(
+        `INSERT INTO ${table} (${columnList}) VALUES (${placeholders}) ON CONFLICT(${quoteIdentifier(
+          idColumn
+        )}) ${conflict}`,
+        columns.map((column) =>
+          row[column] == null || (column === idColumn && row[column] === '') ? null : String(row[column])
+        )
+      );
+      dirty = true;
+    },
+    flush,
+    close: async () => {
+      await flush();
+      db.close();
+    }
+  };
+}
+
+export async function openOutputSink(savePath: string, options: OutputSinkOptions): Promise<OutputSink> {
+  switch (getOutputFormat(savePath)) {
+    case 'jsonl':
+      return openJsonLinesSink(savePath, options);
+    case 'xlsx':
+      return openXlsxSink(savePath, options);
+    case 'sqlite':
+      return openSqliteSink(savePath, options);
+    case 'csv':
+    default:
+      return openCsvSink(savePath, options);
+  }
+}
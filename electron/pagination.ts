@@ -0,0 +1,90 @@
+// electron/pagination.ts
+
+import { ApiRecord } from './preload';
+import { ApiTypeDefinition, asRecord, getValueByPath, isRecord } from './apiTypes';
+
+// Where a job starts: the page holding its start index, and the results on it that come before
+export type FirstPage = {
+  page: number;
+  skipRows: number;
+};
+
+function parentPath(valuePath: string): { parent: string[]; key: string } {
+  const keys = valuePath.split('.');
+  return { parent: keys.slice(0, -1), key: keys[keys.length - 1] };
+}
+
+function isPageNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Why a job could not page through the payload, or null when it can. The page field has to
+ * be in the payload already, so a payload copied from another endpoint fails here instead of
+ * fetching its first page over and over.
+ */
+export function findPaginationProblem(apiType: ApiTypeDefinition, payload: unknown): string | null {
+  const { pagePath, pageSizePaths } = apiType.pagination;
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return `The ${apiType.name} payload has to be a JSON object.`;
+  }
+  const page = getValueByPath(payload, pagePath);
+  if (page === undefined) {
+    return `The payload has no "${pagePath}" field, which ${apiType.name} jobs page through. Add "${pagePath}": 1 to it.`;
+  }
+  if (!isPageNumber(page)) {
+    return `The "${pagePath}" field of the payload must be a page number, e.g. 1.`;
+  }
+  const invalidSize = pageSizePaths.find((sizePath) => {
+    const pageSize = getValueByPath(payload, sizePath);
+    return pageSize !== undefined && !isPageNumber(pageSize);
+  });
+  if (invalidSize) {
+    return `The "${invalidSize}" field of the payload must be the number of results per page, e.g. 25.`;
+  }
+  return null;
+}
+
+export function checkPagination(apiType: ApiTypeDefinition, payload: unknown) {
+  const problem = findPaginationProblem(apiType, payload);
+  if (problem) {
+    throw new Error(problem);
+  }
+}
+
+// Results per page as the payload asks for them
+export function getPageSize(apiType: ApiTypeDefinition, payload: ApiRecord): number {
+  const { pageSizePaths, defaultPageSize } = apiType.pagination;
+  const pageSize = pageSizePaths.map((sizePath) => getValueByPath(payload, sizePath)).find(isPageNumber);
+  return pageSize ?? defaultPageSize;
+}
+
+/**
+ * `startIdx` counts the results to leave out from the payload's own page on, so 30 with 25 per
+ * page starts at the 6th result of page 2, or of page 4 for a payload asking for page 3.
+ */
+export function getFirstPage(apiType: ApiTypeDefinition, payload: ApiRecord, startIdx: number): FirstPage {
+  const pageSize = getPageSize(apiType, payload);
+  const payloadPage = getValueByPath(payload, apiType.pagination.pagePath);
+  const firstPage = isPageNumber(payloadPage) ? payloadPage : 1;
+  return { page: firstPage + Math.floor(startIdx / pageSize), skipRows: startIdx % pageSize };
+}
+
+// Copy of the payload asking for the given page; the payload must have passed checkPagination
+export function withPage(apiType: ApiTypeDefinition, payload: ApiRecord, page: number): ApiRecord {
+  const copy: ApiRecord = JSON.parse(JSON.stringify(payload));
+  const { parent, key } = parentPath(apiType.pagination.pagePath);
+  parent.reduce((value, name) => asRecord(value[name]), copy)[key] = page;
+  return copy;
+}
+
+// Copy of the payload without its page field, for telling payloads apart
+export function withoutPage(apiType: ApiTypeDefinition, payload: ApiRecord | null): ApiRecord | null {
+  const copy: ApiRecord | null = JSON.parse(JSON.stringify(payload ?? null));
+  const { parent, key } = parentPath(apiType.pagination.pagePath);
+  const container = parent.reduce<unknown>((value, name) => (isRecord(value) ? value[name] : undefined), copy);
+  if (isRecord(container)) {
+    delete container[key];
+  }
+  return copy;
+}
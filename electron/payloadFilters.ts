@@ -0,0 +1,61 @@
+// electron/payloadFilters.ts
+
+import { ApiRecord, FilterField, FilterValues, PayloadFilters } from './preload';
+import { getApiType } from './apiTypes';
+import { fieldKeys, splitList } from './filterFields';
+
+// What a payload built from scratch starts with, before any filter is chosen
+const newPayload = { page: 1, rpp: 25 };
+
+function filterKeys(apiType: string): { field: FilterField; key: string }[] {
+  return (getApiType(apiType).filters || []).flatMap((field) => fieldKeys(field).map((key) => ({ field, key })));
+}
+
+// Text the builder shows for a payload value; null for values it cannot show
+function toText(value: unknown): string | null {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string' || typeof value === 'number') return String(value);
+  if (Array.isArray(value) && value.every((item) => typeof item === 'string' || typeof item === 'number')) {
+    return value.join(', ');
+  }
+  return null;
+}
+
+export function readPayloadFilters(apiType: string, payload: ApiRecord | null): PayloadFilters {
+  const values: FilterValues = {};
+  const unsupported: string[] = [];
+  filterKeys(apiType).forEach(({ key }) => {
+    const text = toText(payload?.[key]);
+    if (text === null) {
+      unsupported.push(key);
+    } else {
+      values[key] = text;
+    }
+  });
+  return { values, unsupported };
+}
+
+/**
+ * Writes the builder's values into a copy of the payload. Keys the builder does not know, and
+ * keys holding values it cannot show, are kept as they are, so edits made in the JSON survive
+ * a round trip. A list the payload already holds as an array stays an array.
+ */
+export function applyPayloadFilters(apiType: string, values: FilterValues, payload: ApiRecord | null): ApiRecord {
+  const base = payload && typeof payload === 'object' && !Array.isArray(payload) ? payload : newPayload;
+  const { unsupported } = readPayloadFilters(apiType, base);
+  const result = { ...base };
+  filterKeys(apiType).forEach(({ field, key }) => {
+    if (values[key] === undefined || unsupported.includes(key)) return;
+    const text = values[key].trim();
+    if (text === '') {
+      delete result[key];
+    } else if (field.kind === 'range') {
+      result[key] = Number.isNaN(Number(text)) ? text : Number(text);
+    } else if (Array.isArray(result[key])) {
+      result[key] = splitList(text);
+    } else {
+      result[key] = field.kind === 'options' ? splitList(text).join(',') : text;
+    }
+  });
+  return result;
+}
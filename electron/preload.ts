@@ -2,6 +2,82 @@
 
 import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron';
 
+// How records fetched by earlier runs are treated: 'skip' always skips them, 'refresh'
+// fetches them again once they are older than `refreshAfterDays`
+export type DedupeMode = 'off' | 'skip' | 'refresh';
+
+export type TemplateColumn = {
+  header: string;
+  // Dot-separated path into the raw result; "*" reads a field from every entry of a list
+  path: string;
+};
+
+// Output columns chosen by the user for an API type, replacing its built-in columns
+export type ColumnTemplate = {
+  id: string;
+  name: string;
+  apiType: string;
+  columns: TemplateColumn[];
+};
+
+// A cookie as exported by browser extensions; `expirationDate` is in seconds since the epoch
+export type BrowserCookie = {
+  name: string;
+  value: string;
+  domain?: string;
+  expirationDate?: number;
+};
+
+export type CookieFormat = 'json' | 'har' | 'netscape' | 'header';
+
+// What the cookie input holds, detected by the main process
+export type CookieParseResult = {
+  format?: CookieFormat;
+  formatName?: string;
+  cookies: BrowserCookie[];
+  // Required session cookies that were not found
+  missing: string[];
+  // When the first required session cookie expires; unknown for headers and session cookies
+  expiresAt?: string;
+  error?: string;
+};
+
+// JSON the API takes or sends back: a payload, a response body or a record in it. Its fields
+// are checked where they are read.
+export type ApiRecord = Record<string, unknown>;
+
+// A job read from a request copied out of the browser's DevTools as cURL or saved in a HAR file
+export type ImportedJob = {
+  apiType: string;
+  payload: ApiRecord;
+  cookies: BrowserCookie[];
+  // The request it was read from, e.g. "https://app.zoominfo.com/profiles/graphql/companySearch"
+  url: string;
+};
+
+// Outcome of the "Test session" request
+export type SessionTestResult = {
+  ok: boolean;
+  status?: number;
+  message: string;
+};
+
+// Sent when a request fails with 401/403; the job waits for new cookies until `deadline`
+export type CookieRenewalRequest = {
+  // The blocked request, e.g. "POST /profiles/graphql/personSearch (page 3)"
+  request: string;
+  status: number;
+  deadline: string;
+};
+
+// Whether a job will likely still be running when its session cookies expire
+export type SessionEstimate = {
+  expiresAt?: string;
+  // Rough run time from the number of requests, the delays between them and the request budget
+  durationMs: number;
+  outlastsSession: boolean;
+};
+
 export type ScrapeData = {
   apiType: string;
   cookies: any;
@@ -9,15 +85,293 @@ export type ScrapeData = {
   totalResults: number;
   startIdx: number;
   savePath: string;
+  // Continue writing into an existing output file instead of replacing it
+  appendToExisting?: boolean;
+  dedupeMode?: DedupeMode;
+  refreshAfterDays?: number;
+  // Copied into the job so later edits to the template do not change a queued or resumed job
+  columnTemplate?: ColumnTemplate;
+  // Keep every raw API response in a folder next to the output
+  archiveResponses?: boolean;
+  // IDs sent per enrichment request (Contact Search), defaults to the API type's batch size
+  enrichBatchSize?: number;
+  // Credits the job may spend before it is paused; no cap when unset
+  creditCap?: number;
+  // Re-run only the records and pages listed in the failures file of the output
+  retryFailures?: boolean;
+  // Only fetch records newer than the newest one an earlier run of the same payload captured
+  incremental?: boolean;
+  // Stop paging at records published before this local date ("2024-06-01")
+  stopBeforeDate?: string;
+  // Set on the runs of a schedule, which are compared with the schedule's previous run
+  scheduleId?: string;
   headers: Record<string, string>;
 };
 
+// Days (0 = Sunday) and local times ("08:00") during which jobs may send requests
+export type RunWindow = {
+  days: number[];
+  start: string;
+  end: string;
+};
+
+export type AppSettings = {
+  // Origin the ZoomInfo endpoints are requested from, e.g. a local mock server
+  baseUrl: string;
+  // Credits all jobs together may spend per calendar month; 0 means no cap
+  monthlyCreditCap: number;
+  // Starting a job estimated to spend more credits than this asks for confirmation
+  creditConfirmThreshold: number;
+  // Timeouts, 429 and 5xx responses are retried with exponential backoff up to this many attempts
+  retryMaxAttempts: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  // How long a search request may take before it is given up as a timeout
+  requestTimeoutMs: number;
+  // How long a job blocked by an expired session waits for new cookies before it is stopped
+  cookieRenewalTimeoutMs: number;
+  // Random wait between two requests of a job
+  requestDelayMinMs: number;
+  requestDelayMaxMs: number;
+  // Requests all jobs together may send per hour and per day; 0 means no limit
+  maxRequestsPerHour: number;
+  maxRequestsPerDay: number;
+  // Jobs only send requests inside these windows; no windows means at any time
+  runWindows: RunWindow[];
+};
+
+export type CreditLedgerJob = {
+  apiType: string;
+  savePath: string;
+  credits: number;
+  firstSpentAt: string;
+  lastSpentAt: string;
+};
+
+// Credits spent, per job ID and per local day ("2024-06-30")
+export type CreditLedger = {
+  jobs: Record<string, CreditLedgerJob>;
+  days: Record<string, number>;
+};
+
+export type CreditEstimate = {
+  credits: number;
+  monthSpent: number;
+  monthlyCap: number;
+  confirmThreshold: number;
+};
+
+// Picked from the extension of the save path
+export type OutputFormat = 'csv' | 'jsonl' | 'xlsx' | 'sqlite';
+
+export type OutputFileInfo = {
+  exists: boolean;
+  format?: OutputFormat;
+  canAppend: boolean;
+  message: string;
+  // Raw responses archived next to the file, from which the export can be rebuilt
+  hasArchive?: boolean;
+};
+
+export type FilterOption = {
+  value: string;
+  label: string;
+};
+
+// One control of the filter builder and the payload key it writes
+export type FilterField = {
+  label: string;
+  // 'range' writes `${key}Min` and `${key}Max`; 'options' writes the chosen option values
+  kind: 'text' | 'range' | 'options';
+  key: string;
+  options?: FilterOption[];
+  placeholder?: string;
+};
+
+// Filter builder values by payload key; lists are comma-separated
+export type FilterValues = Record<string, string>;
+
+export type PayloadFilters = {
+  values: FilterValues;
+  // Payload keys holding values the builder cannot show, e.g. objects; they are left as they are
+  unsupported: string[];
+};
+
+export type ApiTypeInfo = {
+  name: string;
+  hasEnrichment: boolean;
+  // IDs per enrichment request, for API types with an enrichment step
+  defaultBatchSize?: number;
+  maxBatchSize?: number;
+  // Results come newest first, so a job can stop at records an earlier run captured
+  supportsIncremental: boolean;
+  // Controls of the filter builder; API types without them are edited as JSON only
+  filterFields: FilterField[];
+};
+
+// Newest record an incremental search captured for a payload, and the IDs published at that time
+export type IncrementalCursor = {
+  newestDate: string;
+  ids: string[];
+  updatedAt: string;
+};
+
+// A record or search page a job could not fetch, listed in the failures file next to its output
+export type FailedRecord = {
+  kind: 'record' | 'page';
+  // Enrichment ID of a record, number of a page
+  id?: string;
+  page?: number;
+  reason: string;
+  // Search data of a record, merged into its enrichment response when it is retried
+  context?: ApiRecord;
+  failedAt: string;
+};
+
+// API types with an enrichment step (Contact Search) first collect IDs, then enrich them
+export type ScrapePhase = 'search' | 'enrich';
+
+export type JobCheckpoint = {
+  jobId: string;
+  scrapeData: ScrapeData;
+  page: number;
+  resultsCollected: number;
+  // Records left out because an earlier run already fetched them
+  skipped?: number;
+  // API types with an enrichment step only
+  phase?: ScrapePhase;
+  enrichIds?: string[];
+  enrichContext?: Record<string, ApiRecord>;
+  enrichIndex?: number;
+  // Failed search pages still to fetch, when the job retries failures
+  retryPages?: number[];
+  // Results at the start of the current page that come before the job's start index
+  skipRows?: number;
+  // Newest record an incremental job has written so far
+  newestCaptured?: { date: string; ids: string[] };
+  updatedAt: string;
+};
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled' | 'stopped';
+
+export type QueuedJob = {
+  id: string;
+  scrapeData: ScrapeData;
+  status: JobStatus;
+  resultsCollected: number;
+  skipped?: number;
+  // Records and pages of the output that could not be fetched
+  failures?: number;
+  error?: string;
+  addedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+};
+
+export type QueueState = {
+  jobs: QueuedJob[];
+  running: boolean;
+};
+
 export type ProgressUpdate = {
+  // Within the current phase, so Contact Search's two phases each fill the bar once
   progressPercentage: number;
+  apiType: string;
+  phase: ScrapePhase;
+  page: number;
+  rowsWritten: number;
+  skipped: number;
+  phaseDone: number;
+  phaseTotal: number;
+  // Requests made and failed during this run of the job
+  requests: number;
+  failures: number;
+  // When the next request is sent, while waiting between requests
+  nextRequestAt?: string;
+  // Why the job waits longer than the delay between requests, e.g. outside the run windows
+  waitReason?: string;
+  rowsPerMinute: number;
+  requestsPerMinute: number;
+  etaSeconds?: number;
+};
+
+export type ScheduleFrequency = 'daily' | 'weekly' | 'cron';
+
+// A job the app re-runs by itself while it is open
+export type JobSchedule = {
+  id: string;
+  name: string;
+  scrapeData: ScrapeData;
+  frequency: ScheduleFrequency;
+  // Local time of daily and weekly runs, e.g. "07:30"
+  time: string;
+  // Day of weekly runs (0 = Sunday)
+  weekday: number;
+  // Five-field cron expression of cron runs, e.g. "30 7 * * 1-5"
+  cron: string;
+  enabled: boolean;
+  nextRunAt?: string;
+  lastRunAt?: string;
+  // Records of the latest completed run that the run before it did not return
+  lastNewRecords?: number;
+};
+
+// A saved job configuration that fills the form again. Cookies are only kept when the user
+// chose to save them with the preset.
+export type JobPreset = {
+  id: string;
+  name: string;
+  tags: string[];
+  apiType: string;
+  payload: ApiRecord | null;
+  totalResults?: number;
+  startIdx?: number;
+  savePath: string;
+  dedupeMode?: DedupeMode;
+  refreshAfterDays?: number;
+  columnTemplateId?: string;
+  archiveResponses?: boolean;
+  enrichBatchSize?: number;
+  creditCap?: number;
+  incremental?: boolean;
+  stopBeforeDate?: string;
+  cookies?: BrowserCookie[];
+  updatedAt: string;
+};
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogCategory = 'job' | 'request' | 'response' | 'retry' | 'cookies' | 'pause' | 'skip';
+
+// One entry of the run log, streamed to the activity panel and written to the job's log file
+export type LogEntry = {
+  // The timestamp and the number of the entry in this session, which tells entries apart
+  id: string;
+  timestamp: string;
+  level: LogLevel;
+  category: LogCategory;
+  message: string;
+  jobId?: string;
+  details?: Record<string, unknown>;
 };
 
 contextBridge.exposeInMainWorld('electronAPI', {
   startScraping: (scrapeData: ScrapeData) => ipcRenderer.send('start-scraping', scrapeData),
+  addJob: (scrapeData: ScrapeData) => ipcRenderer.send('queue-add', scrapeData),
+  startQueue: () => ipcRenderer.send('queue-start'),
+  moveJob: (jobId: string, direction: -1 | 1) => ipcRenderer.send('queue-move', jobId, direction),
+  cancelJob: (jobId: string) => ipcRenderer.send('queue-cancel', jobId),
+  retryJob: (jobId: string) => ipcRenderer.send('queue-retry', jobId),
+  retryFailures: (jobId: string) => ipcRenderer.send('queue-retry-failures', jobId),
+  removeJob: (jobId: string) => ipcRenderer.send('queue-remove', jobId),
+  getApiTypes: (): Promise<ApiTypeInfo[]> => ipcRenderer.invoke('get-api-types'),
+  getSettings: (): Promise<AppSettings> => ipcRenderer.invoke('get-settings'),
+  saveSettings: (settings: Partial<AppSettings>): Promise<AppSettings> => ipcRenderer.invoke('save-settings', settings),
+  countSeenRecords: (apiType: string): Promise<number> => ipcRenderer.invoke('count-seen-records', apiType),
+  clearSeenRecords: (apiType: string): Promise<void> => ipcRenderer.invoke('clear-seen-records', apiType),
+  getQueue: (): Promise<QueueState> => ipcRenderer.invoke('get-queue'),
+  onQueueUpdated: (callback: (state: QueueState) => void) =>
+    ipcRenderer.on('queue-updated', (_event: IpcRendererEvent, state: QueueState) => callback(state)),
   pauseScraping: () => ipcRenderer.send('pause-scraping'),
   resumeScraping: () => ipcRenderer.send('resume-scraping'),
   stopScraping: () => ipcRenderer.send('stop-scraping'),
@@ -25,14 +379,70 @@ contextBridge.exposeInMainWorld('electronAPI', {
   openFile: (filePath: string) => ipcRenderer.send('open-file', filePath),
   selectSavePath: () => ipcRenderer.invoke('select-save-path'),
   fileExists: (filePath: string) => ipcRenderer.invoke('file-exists', filePath),
+  inspectOutputFile: (filePath: string, apiType: string, template?: ColumnTemplate): Promise<OutputFileInfo> =>
+    ipcRenderer.invoke('inspect-output-file', filePath, apiType, template),
+  inspectCookies: (text: string): Promise<CookieParseResult> => ipcRenderer.invoke('inspect-cookies', text),
+  importJob: (text: string): Promise<ImportedJob> => ipcRenderer.invoke('import-job', text),
+  importJobFile: (): Promise<ImportedJob | null> => ipcRenderer.invoke('import-job-file'),
+  readPayloadFilters: (apiType: string, payload: ApiRecord | null): Promise<PayloadFilters> =>
+    ipcRenderer.invoke('read-payload-filters', apiType, payload),
+  applyPayloadFilters: (apiType: string, values: FilterValues, payload: ApiRecord | null): Promise<ApiRecord> =>
+    ipcRenderer.invoke('apply-payload-filters', apiType, values, payload),
+  // Resolves with the reason a job could not page through the payload, or null
+  checkPagination: (apiType: string, payload: unknown): Promise<string | null> =>
+    ipcRenderer.invoke('check-pagination', apiType, payload),
+  testSession: (scrapeData: ScrapeData): Promise<SessionTestResult> => ipcRenderer.invoke('test-session', scrapeData),
+  estimateSession: (scrapeData: ScrapeData): Promise<SessionEstimate> =>
+    ipcRenderer.invoke('estimate-session', scrapeData),
+  getColumnTemplates: (): Promise<ColumnTemplate[]> => ipcRenderer.invoke('get-column-templates'),
+  saveColumnTemplate: (template: ColumnTemplate): Promise<ColumnTemplate> =>
+    ipcRenderer.invoke('save-column-template', template),
+  deleteColumnTemplate: (id: string): Promise<void> => ipcRenderer.invoke('delete-column-template', id),
+  rebuildExport: (savePath: string, template?: ColumnTemplate): Promise<number | null> =>
+    ipcRenderer.invoke('rebuild-export', savePath, template),
+  estimateCredits: (scrapeData: ScrapeData): Promise<CreditEstimate> =>
+    ipcRenderer.invoke('estimate-credits', scrapeData),
+  getCreditLedger: (): Promise<CreditLedger> => ipcRenderer.invoke('get-credit-ledger'),
+  raiseCreditCap: (creditCap: number) => ipcRenderer.send('raise-credit-cap', creditCap),
+  onCreditCapReached: (callback: (message: string) => void) =>
+    ipcRenderer.on('credit-cap-reached', (_event: IpcRendererEvent, message: string) => callback(message)),
+  getLogEntries: (): Promise<LogEntry[]> => ipcRenderer.invoke('get-log-entries'),
+  onLogEntry: (callback: (entry: LogEntry) => void) =>
+    ipcRenderer.on('log-entry', (_event: IpcRendererEvent, entry: LogEntry) => callback(entry)),
+  getIncrementalCursor: (apiType: string, payload: ApiRecord): Promise<IncrementalCursor | null> =>
+    ipcRenderer.invoke('get-incremental-cursor', apiType, payload),
+  resetIncrementalCursor: (apiType: string, payload: ApiRecord): Promise<void> =>
+    ipcRenderer.invoke('reset-incremental-cursor', apiType, payload),
+  getSchedules: (): Promise<JobSchedule[]> => ipcRenderer.invoke('get-schedules'),
+  saveSchedule: (schedule: JobSchedule): Promise<JobSchedule> => ipcRenderer.invoke('save-schedule', schedule),
+  deleteSchedule: (id: string): Promise<void> => ipcRenderer.invoke('delete-schedule', id),
+  runScheduleNow: (id: string) => ipcRenderer.send('run-schedule-now', id),
+  onSchedulesUpdated: (callback: (schedules: JobSchedule[]) => void) =>
+    ipcRenderer.on('schedules-updated', (_event: IpcRendererEvent, schedules: JobSchedule[]) => callback(schedules)),
+  getJobPresets: (): Promise<JobPreset[]> => ipcRenderer.invoke('get-job-presets'),
+  saveJobPreset: (preset: JobPreset): Promise<JobPreset> => ipcRenderer.invoke('save-job-preset', preset),
+  duplicateJobPreset: (id: string): Promise<JobPreset> => ipcRenderer.invoke('duplicate-job-preset', id),
+  deleteJobPreset: (id: string): Promise<void> => ipcRenderer.invoke('delete-job-preset', id),
+  exportJobPresets: (ids: string[], includeCookies: boolean): Promise<string | null> =>
+    ipcRenderer.invoke('export-job-presets', ids, includeCookies),
+  importJobPresets: (): Promise<number | null> => ipcRenderer.invoke('import-job-presets'),
+  getSourcePaths: (apiType: string): Promise<string[]> => ipcRenderer.invoke('get-source-paths', apiType),
   onProgressUpdate: (callback: (data: ProgressUpdate) => void) =>
     ipcRenderer.on('progress-update', (_event: IpcRendererEvent, data: ProgressUpdate) => callback(data)),
   onScrapingFinished: (callback: () => void) => ipcRenderer.on('scraping-finished', () => callback()),
   onScrapingStopped: (callback: () => void) => ipcRenderer.on('scraping-stopped', () => callback()),
   onError: (callback: (error: string) => void) => ipcRenderer.on('error', (_event: IpcRendererEvent, error: string) => callback(error)),
-  onRequestNewCookies: (callback: () => void) => ipcRenderer.on('request-new-cookies', () => callback()),
+  onRequestNewCookies: (callback: (request: CookieRenewalRequest) => void) =>
+    ipcRenderer.on('request-new-cookies', (_event: IpcRendererEvent, request: CookieRenewalRequest) =>
+      callback(request)
+    ),
+  onCookieRenewalTimedOut: (callback: (message: string) => void) =>
+    ipcRenderer.on('cookie-renewal-timed-out', (_event: IpcRendererEvent, message: string) => callback(message)),
   onAutoPause: (callback: () => void) => ipcRenderer.on('auto-pause', () => callback()),
   onAutoResume: (callback: () => void) => ipcRenderer.on('auto-resume', () => callback()),
-  onRestoreAppState: (callback: (state: any) => void) => ipcRenderer.on('restore-app-state', (_event, state) => callback(state)),
+  onRestoreAppState: (callback: (state: JobCheckpoint) => void) =>
+    ipcRenderer.on('restore-app-state', (_event, state: JobCheckpoint) => callback(state)),
+  resumePreviousJob: () => ipcRenderer.send('resume-previous-job'),
+  discardPreviousJob: () => ipcRenderer.send('discard-previous-job'),
   saveAppState: (state: any) => ipcRenderer.send('save-app-state', state),
 });
@@ -0,0 +1,78 @@
+// electron/progressTracker.ts
+
+import { ProgressUpdate, ScrapePhase } from './preload';
+
+// What the scrape loop knows about where it is; the tracker adds counts, rates and the ETA
+export type ProgressPosition = {
+  apiType: string;
+  phase: ScrapePhase;
+  page: number;
+  rowsWritten: number;
+  skipped: number;
+  // Progress within the current phase, e.g. IDs collected out of the results wanted
+  phaseDone: number;
+  phaseTotal: number;
+  // Requests still needed to finish the whole job
+  remainingRequests: number;
+};
+
+export type ProgressTracker = {
+  requestSent: () => void;
+  requestFailed: () => void;
+  delayStarted: (ms: number, reason?: string) => void;
+  snapshot: (position: ProgressPosition) => ProgressUpdate;
+};
+
+/**
+ * Counts the requests of one run of a job. Rates are measured from the start of the run, so
+ * a resumed job does not count rows written before it was interrupted.
+ */
+export function createProgressTracker(startRows: number): ProgressTracker {
+  const startedAt = Date.now();
+  let requests = 0;
+  let failures = 0;
+  let nextRequestAt: number | null = null;
+  let waitReason: string | undefined;
+
+  return {
+    requestSent: () => {
+      requests += 1;
+      nextRequestAt = null;
+      waitReason = undefined;
+    },
+    requestFailed: () => {
+      failures += 1;
+    },
+    delayStarted: (ms, reason) => {
+      nextRequestAt = Date.now() + ms;
+      waitReason = reason;
+    },
+    snapshot: (position) => {
+      const elapsedMinutes = (Date.now() - startedAt) / 60000;
+      const requestsPerMinute = elapsedMinutes > 0 ? requests / elapsedMinutes : 0;
+      const waitingUntil = nextRequestAt !== null && nextRequestAt > Date.now() ? nextRequestAt : null;
+      return {
+        progressPercentage:
+          position.phaseTotal > 0 ? Math.min((position.phaseDone / position.phaseTotal) * 100, 100) : 0,
+        apiType: position.apiType,
+        phase: position.phase,
+        page: position.page,
+        rowsWritten: position.rowsWritten,
+        skipped: position.skipped,
+        phaseDone: position.phaseDone,
+        phaseTotal: position.phaseTotal,
+        requests,
+        failures,
+        nextRequestAt: waitingUntil ? new Date(waitingUntil).toISOString() : undefined,
+        waitReason: waitingUntil ? waitReason : undefined,
+        rowsPerMinute: elapsedMinutes > 0 ? (position.rowsWritten - startRows) / elapsedMinutes : 0,
+        requestsPerMinute,
+        // Delays between requests dominate a run, so the remaining time follows the request rate
+        etaSeconds:
+          requests > 0 && requestsPerMinute > 0
+            ? Math.round((position.remainingRequests / requestsPerMinute) * 60)
+            : undefined
+      };
+    }
+  };
+}
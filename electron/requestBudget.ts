@@ -0,0 +1,109 @@
+// electron/requestBudget.ts
+
+import storage from 'node-persist';
+import { AppSettings, RunWindow } from './preload';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export type RequestLimits = Pick<AppSettings, 'maxRequestsPerHour' | 'maxRequestsPerDay' | 'runWindows'>;
+
+// When the next request may be sent and why it has to wait until then
+export type RequestSlot = {
+  at: number;
+  reason: string;
+};
+
+// Send times (ms) of the requests of the last 24 hours, across all jobs and restarts
+let sentAt: number[] = [];
+
+export async function loadRequestBudget() {
+  const saved: number[] = (await storage.getItem('requestLog')) || [];
+  sentAt = saved.filter((time) => time > Date.now() - DAY_MS);
+}
+
+export async function recordRequest() {
+  const now = Date.now();
+  sentAt = [...sentAt.filter((time) => time > now - DAY_MS), now];
+  await storage.setItem('requestLog', sentAt);
+}
+
+// "08:30" -> minutes after midnight
+function parseTime(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function atMinute(day: Date, minutes: number): number {
+  const date = new Date(day);
+  date.setHours(0, minutes, 0, 0);
+  return date.getTime();
+}
+
+/**
+ * A window whose end is before its start runs overnight and belongs to the day it starts on,
+ * e.g. Friday 22:00-06:00 ends on Saturday morning.
+ */
+function isInRunWindow(windows: RunWindow[], time: number): boolean {
+  const today = new Date(time);
+  const yesterday = new Date(time - DAY_MS);
+  return windows.some((runWindow) => {
+    const start = parseTime(runWindow.start);
+    const end = parseTime(runWindow.end);
+    const days = end > start ? [today] : [yesterday, today];
+    return days.some((day) => {
+      if (!runWindow.days.includes(day.getDay())) return false;
+      const startsAt = atMinute(day, start);
+      const endsAt = atMinute(day, end) + (end > start ? 0 : DAY_MS);
+      return time >= startsAt && time < endsAt;
+    });
+  });
+}
+
+function nextWindowStart(windows: RunWindow[], time: number): number | null {
+  const days = Array.from({ length: 8 }, (_day, offset) => new Date(time + offset * DAY_MS));
+  const starts = days.flatMap((day) =>
+    windows
+      .filter((runWindow) => runWindow.days.includes(day.getDay()))
+      .map((runWindow) => atMinute(day, parseTime(runWindow.start)))
+      .filter((startsAt) => startsAt > time)
+  );
+  return starts.length > 0 ? Math.min(...starts) : null;
+}
+
+// Earliest time at which fewer than `max` requests were sent within the preceding `period`
+function budgetAvailableAt(max: number, period: number, time: number): number {
+  if (max <= 0) return time;
+  const recent = sentAt.filter((sent) => sent > time - period);
+  return recent.length < max ? time : recent[recent.length - max] + period;
+}
+
+/**
+ * Returns when the next request may be sent if that is later than now: outside the run
+ * windows, or once the hourly or daily budget is used up. Budgets count the requests of the
+ * last 60 minutes and 24 hours.
+ */
+export function nextRequestSlot(limits: RequestLimits, now = Date.now()): RequestSlot | null {
+  let at = now;
+  let reason: string | null = null;
+  // Waiting for one limit can run into another, e.g. the budget frees up after the window closed
+  for (let round = 0; round < 3; round += 1) {
+    const hourly = budgetAvailableAt(limits.maxRequestsPerHour, HOUR_MS, at);
+    const daily = budgetAvailableAt(limits.maxRequestsPerDay, DAY_MS, at);
+    let next: RequestSlot | null = null;
+    if (daily > at) {
+      next = { at: daily, reason: `the daily limit of ${limits.maxRequestsPerDay} requests is used up` };
+    } else if (hourly > at) {
+      next = { at: hourly, reason: `the hourly limit of ${limits.maxRequestsPerHour} requests is used up` };
+    } else if (limits.runWindows.length > 0 && !isInRunWindow(limits.runWindows, at)) {
+      const start = nextWindowStart(limits.runWindows, at);
+      if (start !== null) {
+        next = { at: start, reason: 'outside the allowed run windows' };
+      }
+    }
+    if (!next) break;
+    at = next.at;
+    reason = reason ?? next.reason;
+  }
+  return reason ? { at, reason } : null;
+}
@@ -0,0 +1,198 @@
+// electron/requestImport.ts
+
+import { ApiRecord, BrowserCookie, ImportedJob } from './preload';
+import { findApiTypeByUrl } from './apiTypes';
+import { HarRequest, harRequestCookies, parseCookieHeader } from './cookieFormats';
+
+// What the import needs from a captured request
+type CapturedRequest = {
+  url: string;
+  cookies: BrowserCookie[];
+  body?: string;
+};
+
+// A request in a HAR file with its URL and body
+type HarSearchRequest = HarRequest & {
+  url?: string;
+  postData?: { text?: string };
+};
+
+// curl options that take a value; every other option is a flag
+const valueOptions = new Set([
+  '-H',
+  '--header',
+  '-b',
+  '--cookie',
+  '-d',
+  '--data',
+  '--data-raw',
+  '--data-binary',
+  '--data-ascii',
+  '-X',
+  '--request',
+  '--url',
+  '-A',
+  '--user-agent',
+  '-e',
+  '--referer',
+  '-u',
+  '--user',
+  '-o',
+  '--output'
+]);
+
+const dataOptions = new Set(['-d', '--data', '--data-raw', '--data-binary', '--data-ascii']);
+
+// Escapes inside $'...' strings, which DevTools uses for bodies with control characters
+function unescapeAnsiC(text: string): string {
+  return text.replace(/\\(x[0-9a-fA-F]{2}|u[0-9a-fA-F]{4}|.)/g, (_match, escape: string) => {
+    if (escape.length > 1) return String.fromCharCode(parseInt(escape.slice(1), 16));
+    const controls: Record<string, string> = { n: '\n', r: '\r', t: '\t' };
+    return controls[escape] ?? escape;
+  });
+}
+
+/**
+ * Splits a bash command line into words: single, double and $'...' quotes, backslash escapes
+ * and line continuations. Variables and substitutions are not expanded.
+ */
+function splitShellWords(command: string): string[] {
+  const words: string[] = [];
+  let word: string | null = null;
+  let index = 0;
+  const append = (text: string) => {
+    word = (word ?? '') + text;
+  };
+
+  while (index < command.length) {
+    const char = command[index];
+    if (/\s/.test(char)) {
+      if (word !== null) words.push(word);
+      word = null;
+      index += 1;
+    } else if (char === '\\') {
+      // A backslash before a line break continues the command on the next line
+      if (command[index + 1] !== '\n' && command[index + 1] !== '\r') append(command[index + 1] ?? '');
+      index += command.startsWith('\r\n', index + 1) ? 3 : 2;
+    } else if (char === "'" || command.startsWith("$'", index)) {
+      const ansiC = char === '$';
+      const start = index + (ansiC ? 2 : 1);
+      let end = start;
+      while (end < command.length && command[end] !== "'") {
+        end += ansiC && command[end] === '\\' ? 2 : 1;
+      }
+      if (end >= command.length) throw new Error('The cURL command has an unclosed quote.');
+      append(ansiC ? unescapeAnsiC(command.slice(start, end)) : command.slice(start, end));
+      index = end + 1;
+    } else if (char === '"') {
+      let end = index + 1;
+      let text = '';
+      while (end < command.length && command[end] !== '"') {
+        if (command[end] === '\\' && /["\\$`]/.test(command[end + 1] ?? '')) end += 1;
+        text += command[end];
+        end += 1;
+      }
+      if (end >= command.length) throw new Error('The cURL command has an unclosed quote.');
+      append(text);
+      index = end + 1;
+    } else {
+      append(char);
+      index += 1;
+    }
+  }
+  if (word !== null) words.push(word);
+  return words;
+}
+
+// "Copy as cURL (cmd)" escapes with carets: ^" for a quote, ^ at the end of a line to continue it
+function fromCmdEscaping(command: string): string {
+  return command.replace(/\^\r?\n/g, ' ').replace(/\^(.)/g, '$1');
+}
+
+function parseCurl(command: string): CapturedRequest {
+  const words = splitShellWords(/\^"/.test(command) ? fromCmdEscaping(command) : command);
+  let url = '';
+  let body: string | undefined;
+  const cookies: BrowserCookie[] = [];
+
+  for (let index = 1; index < words.length; index += 1) {
+    const option = words[index];
+    if (!option.startsWith('-')) {
+      url = url || option;
+    } else if (valueOptions.has(option)) {
+      const value = words[index + 1] ?? '';
+      index += 1;
+      if (option === '--url') {
+        url = value;
+      } else if (dataOptions.has(option)) {
+        if (value.startsWith('@')) {
+          throw new Error('The cURL command reads its body from a file; copy the request with its body instead.');
+        }
+        body = value;
+      } else if (option === '-b' || option === '--cookie') {
+        cookies.push(...parseCookieHeader(value));
+      } else if ((option === '-H' || option === '--header') && /^cookie\s*:/i.test(value)) {
+        cookies.push(...parseCookieHeader(value));
+      }
+    }
+  }
+  if (!url) {
+    throw new Error('The cURL command has no URL.');
+  }
+  return { url, cookies, body };
+}
+
+// The last search request in the capture, which holds the filters the user ended up with
+function parseHarRequest(text: string): CapturedRequest {
+  let har: { log?: { entries?: unknown } } | null;
+  try {
+    har = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`The HAR file could not be parsed: ${(error as Error).message}`);
+  }
+  const entries = har?.log?.entries;
+  if (!Array.isArray(entries)) {
+    throw new Error('The JSON is not a HAR file.');
+  }
+  const searches = entries
+    .map((entry: { request?: HarSearchRequest } | null) => entry?.request)
+    .filter((request) => request?.postData?.text && findApiTypeByUrl(String(request.url)));
+  if (searches.length === 0) {
+    throw new Error('The HAR file has no Company, Person or Scoops Search request with a body.');
+  }
+  const request = searches[searches.length - 1];
+  return { url: String(request?.url), cookies: harRequestCookies(request), body: request?.postData?.text };
+}
+
+/**
+ * Reads a job from a request copied with "Copy as cURL" (bash or cmd) or from a HAR file:
+ * the API type from the endpoint, the JSON body as the payload and the cookies sent with it.
+ */
+function importJob(text: string): ImportedJob {
+  const trimmed = text.trim();
+  let request: CapturedRequest;
+  if (trimmed.startsWith('{')) {
+    request = parseHarRequest(trimmed);
+  } else if (/^curl(\.exe)?\s/i.test(trimmed)) {
+    request = parseCurl(trimmed);
+  } else {
+    throw new Error('Please paste a cURL command ("Copy as cURL" in DevTools) or a HAR file.');
+  }
+
+  const definition = findApiTypeByUrl(request.url);
+  if (!definition) {
+    throw new Error(`${request.url} is not a Company, Person or Scoops Search request.`);
+  }
+  if (!request.body) {
+    throw new Error('The request has no body to use as the payload.');
+  }
+  let payload: ApiRecord;
+  try {
+    payload = JSON.parse(request.body);
+  } catch (error) {
+    throw new Error('The request body is not JSON.');
+  }
+  return { apiType: definition.name, payload, cookies: request.cookies, url: request.url };
+}
+
+export default importJob;
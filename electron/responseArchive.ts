@@ -0,0 +1,150 @@
+// electron/responseArchive.ts
+
+import fs from 'fs';
+import path from 'node:path';
+import { ApiRecord, ColumnTemplate, ScrapeData } from './preload';
+import { extractResults, getApiType, getTableName, getValueByPath } from './apiTypes';
+import { getRowLayout } from './columnTemplates';
+import { openOutputSink } from './outputSinks';
+
+/**
+ * One API response as it came back from the server. Enrichment entries also keep the
+ * search data that was merged into the enriched records, so an export can be rebuilt from
+ * the archive alone. `written` holds the positions of the response's records that became
+ * output rows, so records the job skipped or cut off are not rebuilt.
+ */
+export type ArchiveEntry = {
+  kind: 'search' | 'enrich';
+  fetchedAt: string;
+  page?: number;
+  ids?: string[];
+  written?: number[];
+  context?: Record<string, ApiRecord>;
+  data: ApiRecord;
+};
+
+type ArchiveManifest = {
+  apiType: string;
+  payload: ApiRecord;
+  createdAt: string;
+};
+
+export type ResponseArchive = {
+  record: (entry: Omit<ArchiveEntry, 'fetchedAt'>) => Promise<void>;
+};
+
+// Responses are kept in a folder next to the output, e.g. "contacts.csv.raw"
+export function getArchiveDir(savePath: string): string {
+  return `${savePath}.raw`;
+}
+
+export function hasResponseArchive(savePath: string): boolean {
+  return fs.existsSync(path.join(getArchiveDir(savePath), 'manifest.json'));
+}
+
+// A run that does not archive its responses leaves the output without a matching archive
+export async function removeResponseArchive(savePath: string) {
+  await fs.promises.rm(getArchiveDir(savePath), { recursive: true, force: true });
+}
+
+function listEntryFiles(archiveDir: string): string[] {
+  return fs
+    .readdirSync(archiveDir)
+    .filter((file) => /^\d+-(search|enrich)\.json$/.test(file))
+    .sort();
+}
+
+/**
+ * Starts (or, when appending to the output, continues) the archive of a job. Cookies are
+ * never written to the archive.
+ */
+export async function openResponseArchive(savePath: string, scrapeData: ScrapeData, append: boolean) {
+  const archiveDir = getArchiveDir(savePath);
+  if (!append) {
+    await removeResponseArchive(savePath);
+  }
+  await fs.promises.mkdir(archiveDir, { recursive: true });
+
+  const manifestPath = path.join(archiveDir, 'manifest.json');
+  if (fs.existsSync(manifestPath)) {
+    const manifest: ArchiveManifest = JSON.parse(await fs.promises.readFile(manifestPath, 'utf8'));
+    if (manifest.apiType !== scrapeData.apiType) {
+      throw new Error(`The response archive next to the output holds ${manifest.apiType} responses.`);
+    }
+  } else {
+    const manifest: ArchiveManifest = {
+      apiType: scrapeData.apiType,
+      payload: scrapeData.payload,
+      createdAt: new Date().toISOString()
+    };
+    await fs.promises.writeFile(manifestPath, JSON.stringify(manifest, null, 2));
+  }
+
+  let sequence = listEntryFiles(archiveDir).length;
+
+  const archive: ResponseArchive = {
+    record: async (entry) => {
+      sequence += 1;
+      const file = path.join(archiveDir, `${String(sequence).padStart(6, '0')}-${entry.kind}.json`);
+      await fs.promises.writeFile(file, JSON.stringify({ ...entry, fetchedAt: new Date().toISOString() }));
+    }
+  };
+  return archive;
+}
+
+/**
+ * Writes the records held in the archive next to `savePath` to `destinationPath`, using the
+ * current column mapping (or `template`). Only the records the job wrote are rebuilt, and
+ * records fetched more than once, e.g. by a resumed job, are written once. Returns the
+ * number of rows written.
+ */
+export async function rebuildExport(
+  savePath: string,
+  destinationPath: string,
+  template?: ColumnTemplate
+): Promise<number> {
+  const archiveDir = getArchiveDir(savePath);
+  if (!hasResponseArchive(savePath)) {
+    throw new Error(`No response archive found at ${archiveDir}.`);
+  }
+  const manifest: ArchiveManifest = JSON.parse(fs.readFileSync(path.join(archiveDir, 'manifest.json'), 'utf8'));
+  const definition = getApiType(manifest.apiType);
+  if (template && template.apiType !== definition.name) {
+    throw new Error(`The archive holds ${definition.name} responses, but the template is for ${template.apiType}.`);
+  }
+  const layout = getRowLayout(definition, template);
+  const { enrichment } = definition;
+
+  // With an enrichment step only the enriched records are output rows
+  const records = listEntryFiles(archiveDir)
+    .map((file): ArchiveEntry => JSON.parse(fs.readFileSync(path.join(archiveDir, file), 'utf8')))
+    .filter((entry) => entry.kind === (enrichment ? 'enrich' : 'search'))
+    .flatMap((entry) => {
+      const results = enrichment ? enrichment.extractResults(entry.data) : extractResults(definition, entry.data);
+      const written = (entry.written || []).map((position) => results[position]).filter(Boolean);
+      if (!enrichment) return written;
+      return written.map((record) => {
+        const context = entry.context?.[String(record[enrichment.idField])] ?? {};
+        return enrichment.merge ? enrichment.merge(record, context) : record;
+      });
+    });
+
+  const output = await openOutputSink(destinationPath, {
+    append: false,
+    columns: layout.columns,
+    idColumn: layout.idColumn,
+    tableName: getTableName(definition)
+  });
+
+  const written = new Set<string>();
+  const rows = records.filter((record) => {
+    const recordId = String(getValueByPath(record, definition.idPath) ?? '');
+    if (!recordId) return true;
+    if (written.has(recordId)) return false;
+    written.add(recordId);
+    return true;
+  });
+  await rows.reduce((previous, record) => previous.then(() => output.write(layout.toRow(record))), Promise.resolve());
+  await output.close();
+  return rows.length;
+}
@@ -0,0 +1,39 @@
+// electron/retryPolicy.ts
+
+import { AxiosError } from 'axios';
+import { AppSettings } from './preload';
+
+export type RetryPolicy = Pick<AppSettings, 'retryMaxAttempts' | 'retryBaseDelayMs' | 'retryMaxDelayMs'>;
+
+// Network errors worth another attempt; anything else without a response is a bug or a bad setting
+const transientErrorCodes = ['ECONNABORTED', 'ETIMEDOUT', 'ECONNRESET', 'ECONNREFUSED', 'EPIPE', 'EAI_AGAIN'];
+
+/**
+ * Timeouts, dropped connections, 429 and 5xx responses are retried. Expired sessions
+ * (401/403) are handled separately by asking for new cookies.
+ */
+export function isRetryable(error: AxiosError): boolean {
+  const status = error.response?.status;
+  if (status) return status === 429 || status >= 500;
+  return transientErrorCodes.includes(error.code || '');
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(value: string | undefined): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(seconds * 1000, 0);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * Delay before the next attempt, after `attempt` attempts failed: the server's Retry-After
+ * when it sent one, otherwise exponential backoff with jitter, capped at the maximum delay.
+ */
+export function retryDelay(attempt: number, error: AxiosError, policy: RetryPolicy): number {
+  const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+  if (retryAfter !== null) return retryAfter;
+  const backoff = policy.retryBaseDelayMs * 2 ** (attempt - 1);
+  return Math.min(Math.round(backoff * (0.5 + Math.random() / 2)), policy.retryMaxDelayMs);
+}
@@ -0,0 +1,69 @@
+// electron/runLog.ts
+
+import fs from 'fs';
+import { LogCategory, LogEntry, LogLevel } from './preload';
+
+// Entries kept in memory for the activity panel; the job log files keep everything
+const MAX_ENTRIES = 1000;
+
+let entries: LogEntry[] = [];
+let entryCount = 0;
+let jobLog: fs.WriteStream | null = null;
+let currentJobId: string | undefined;
+let listener: ((entry: LogEntry) => void) | null = null;
+
+export function onLogEntry(callback: (entry: LogEntry) => void) {
+  listener = callback;
+}
+
+export function getLogEntries(): LogEntry[] {
+  return entries;
+}
+
+// The log of a job is written next to its output, e.g. "contacts.csv.log"
+export function getJobLogPath(savePath: string): string {
+  return `${savePath}.log`;
+}
+
+export function log(level: LogLevel, category: LogCategory, message: string, details?: Record<string, unknown>) {
+  const timestamp = new Date().toISOString();
+  entryCount += 1;
+  const entry: LogEntry = {
+    id: `${timestamp}-${entryCount}`,
+    timestamp,
+    level,
+    category,
+    message,
+    jobId: currentJobId,
+    details
+  };
+  entries = entries.length >= MAX_ENTRIES ? [...entries.slice(1), entry] : [...entries, entry];
+  jobLog?.write(`${JSON.stringify(entry)}\n`);
+  listener?.(entry);
+}
+
+/**
+ * Starts writing entries to the job's log file as JSON lines. A job that appends to its
+ * output (or is resumed) appends to its log as well.
+ */
+export function openJobLog(jobId: string, savePath: string, append: boolean) {
+  jobLog?.end();
+  currentJobId = jobId;
+  const stream = fs.createWriteStream(getJobLogPath(savePath), { flags: append ? 'a' : 'w' });
+  stream.on('error', (error) => {
+    // The entries still reach the activity panel
+    if (jobLog === stream) jobLog = null;
+    log('warn', 'job', `Could not write the job log: ${error.message}`);
+  });
+  jobLog = stream;
+}
+
+export function closeJobLog(): Promise<void> {
+  const stream = jobLog;
+  jobLog = null;
+  currentJobId = undefined;
+  if (!stream) return Promise.resolve();
+  return new Promise((resolve) => {
+    stream.end(() => resolve());
+  });
+}
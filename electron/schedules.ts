@@ -0,0 +1,201 @@
+// electron/schedules.ts
+
+import fs from 'fs';
+import path from 'node:path';
+import storage from 'node-persist';
+import { BrowserCookie, JobSchedule } from './preload';
+import { getApiType } from './apiTypes';
+import { nextCronTime, parseCron } from './cronExpression';
+import { checkPagination } from './pagination';
+import { OutputSink, OutputSinkOptions, openOutputSink } from './outputSinks';
+
+let schedules: JobSchedule[] = [];
+
+function generateScheduleId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Record IDs of the latest completed run, and of a run still in progress
+function recordsKey(scheduleId: string): string {
+  return `scheduleRecords:${scheduleId}`;
+}
+
+function runKey(scheduleId: string): string {
+  return `scheduleRun:${scheduleId}`;
+}
+
+export async function loadSchedules(): Promise<JobSchedule[]> {
+  schedules = (await storage.getItem('schedules')) || [];
+  return schedules;
+}
+
+export function getSchedules(): JobSchedule[] {
+  return schedules;
+}
+
+export function getSchedule(id: string): JobSchedule | undefined {
+  return schedules.find((schedule) => schedule.id === id);
+}
+
+async function persistSchedules() {
+  await storage.setItem('schedules', schedules);
+}
+
+function atTime(date: Date, time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const result = new Date(date);
+  result.setHours(hours, minutes, 0, 0);
+  return result;
+}
+
+export function computeNextRun(schedule: JobSchedule, after: Date): Date | null {
+  if (schedule.frequency === 'cron') {
+    return nextCronTime(schedule.cron, after);
+  }
+  const next = atTime(after, schedule.time);
+  if (schedule.frequency === 'weekly') {
+    next.setDate(next.getDate() + ((schedule.weekday - next.getDay() + 7) % 7));
+  }
+  if (next <= after) {
+    next.setDate(next.getDate() + (schedule.frequency === 'weekly' ? 7 : 1));
+  }
+  return next;
+}
+
+function validateSchedule(schedule: JobSchedule) {
+  if (!schedule.name.trim()) {
+    throw new Error('The schedule needs a name.');
+  }
+  checkPagination(getApiType(schedule.scrapeData.apiType), schedule.scrapeData.payload);
+  if (schedule.frequency === 'cron') {
+    parseCron(schedule.cron);
+    if (!nextCronTime(schedule.cron, new Date())) {
+      throw new Error('The cron expression never matches a date.');
+    }
+    return;
+  }
+  if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(schedule.time)) {
+    throw new Error('Please enter the time of the runs, e.g. 07:30.');
+  }
+  if (schedule.frequency === 'weekly' && !(schedule.weekday >= 0 && schedule.weekday <= 6)) {
+    throw new Error('Please choose the day of the weekly runs.');
+  }
+}
+
+export async function saveSchedule(schedule: JobSchedule): Promise<JobSchedule> {
+  validateSchedule(schedule);
+  const saved: JobSchedule = {
+    ...schedule,
+    id: schedule.id || generateScheduleId(),
+    name: schedule.name.trim(),
+    cron: schedule.cron.trim(),
+    // Runs always write the full export; the new records go to a file of their own
+    scrapeData: { ...schedule.scrapeData, appendToExisting: false, retryFailures: undefined, scheduleId: undefined }
+  };
+  saved.nextRunAt = saved.enabled ? computeNextRun(saved, new Date())?.toISOString() : undefined;
+  schedules = schedules.some((existing) => existing.id === saved.id)
+    ? schedules.map((existing) => (existing.id === saved.id ? saved : existing))
+    : [...schedules, saved];
+  await persistSchedules();
+  return saved;
+}
+
+export async function deleteSchedule(id: string) {
+  schedules = schedules.filter((schedule) => schedule.id !== id);
+  await persistSchedules();
+  await storage.removeItem(recordsKey(id));
+  await storage.removeItem(runKey(id));
+}
+
+export function dueSchedules(now: Date): JobSchedule[] {
+  return schedules.filter((schedule) => schedule.enabled && schedule.nextRunAt && new Date(schedule.nextRunAt) <= now);
+}
+
+/**
+ * Moves a schedule on to its next run. Runs missed while the app was closed are not made up
+ * one by one: the first check after a start runs the schedule once.
+ */
+export async function advanceSchedule(id: string) {
+  schedules = schedules.map((schedule) =>
+    schedule.id === id ? { ...schedule, nextRunAt: computeNextRun(schedule, new Date())?.toISOString() } : schedule
+  );
+  await persistSchedules();
+}
+
+export async function recordScheduleRun(id: string, newRecords: number) {
+  schedules = schedules.map((schedule) =>
+    schedule.id === id ? { ...schedule, lastRunAt: new Date().toISOString(), lastNewRecords: newRecords } : schedule
+  );
+  await persistSchedules();
+}
+
+// Cookies renewed during a scheduled run apply to that schedule's later runs too
+export async function updateScheduleCookies(id: string, cookies: BrowserCookie[], headers: Record<string, string>) {
+  schedules = schedules.map((schedule) =>
+    schedule.id === id ? { ...schedule, scrapeData: { ...schedule.scrapeData, cookies, headers } } : schedule
+  );
+  await persistSchedules();
+}
+
+// "scoops.csv" -> "scoops.new.csv"
+export function getNewRecordsPath(savePath: string): string {
+  const extension = path.extname(savePath);
+  return `${savePath.slice(0, savePath.length - extension.length)}.new${extension}`;
+}
+
+export type RunComparison = {
+  // The job's output, which also writes new records to the "new since last run" file
+  output: OutputSink;
+  // Stores the IDs of this run for the next one; returns how many records are new
+  complete: () => Promise<number>;
+};
+
+/**
+ * Compares a scheduled run with the previous completed run of the schedule, by record ID.
+ * Rows the previous run did not return are written to the "new since last run" file next to
+ * the full export as well. On the first run of a schedule every record is new.
+ */
+export async function compareWithPreviousRun(
+  scheduleId: string,
+  savePath: string,
+  output: OutputSink,
+  options: OutputSinkOptions
+): Promise<RunComparison> {
+  const newRecordsPath = getNewRecordsPath(savePath);
+  if (!options.append) {
+    await fs.promises.rm(newRecordsPath, { force: true });
+    await storage.removeItem(runKey(scheduleId));
+  }
+  const newRecords = await openOutputSink(newRecordsPath, options);
+  const previousIds = new Set<string>((await storage.getItem(recordsKey(scheduleId))) || []);
+  // A resumed run continues with the IDs it had written before it was interrupted
+  const currentIds = new Set<string>((await storage.getItem(runKey(scheduleId))) || []);
+
+  return {
+    output: {
+      write: async (row) => {
+        await output.write(row);
+        const id = String(row[options.idColumn] ?? '');
+        if (!id || currentIds.has(id)) return;
+        currentIds.add(id);
+        if (!previousIds.has(id)) {
+          await newRecords.write(row);
+        }
+      },
+      flush: async () => {
+        await output.flush();
+        await newRecords.flush();
+        await storage.setItem(runKey(scheduleId), [...currentIds]);
+      },
+      close: async () => {
+        await output.close();
+        await newRecords.close();
+      }
+    },
+    complete: async () => {
+      await storage.setItem(recordsKey(scheduleId), [...currentIds]);
+      await storage.removeItem(runKey(scheduleId));
+      return [...currentIds].filter((id) => !previousIds.has(id)).length;
+    }
+  };
+}
@@ -0,0 +1,59 @@
+// electron/seenRecords.ts
+
+import storage from 'node-persist';
+import { DedupeMode } from './preload';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Record ID -> time (ms) it was last written to an output
+type SeenIndex = Record<string, number>;
+
+/**
+ * Remembers which records an API type has already fetched, across runs, so jobs can skip
+ * them instead of writing duplicate rows or spending credits on enriching them again.
+ */
+export type SeenRecords = {
+  shouldSkip: (id: string) => boolean;
+  markSeen: (id: string) => void;
+  save: () => Promise<void>;
+};
+
+function storageKey(apiType: string): string {
+  return `seenRecords:${apiType}`;
+}
+
+export async function openSeenRecords(
+  apiType: string,
+  mode: DedupeMode = 'off',
+  refreshAfterDays = 30
+): Promise<SeenRecords> {
+  const index: SeenIndex = (await storage.getItem(storageKey(apiType))) || {};
+  let dirty = false;
+
+  return {
+    shouldSkip: (id) => {
+      const seenAt = index[id];
+      if (mode === 'off' || seenAt === undefined) return false;
+      if (mode === 'refresh') return Date.now() - seenAt < refreshAfterDays * DAY_MS;
+      return true;
+    },
+    markSeen: (id) => {
+      index[id] = Date.now();
+      dirty = true;
+    },
+    save: async () => {
+      if (!dirty) return;
+      await storage.setItem(storageKey(apiType), index);
+      dirty = false;
+    }
+  };
+}
+
+export async function countSeenRecords(apiType: string): Promise<number> {
+  const index: SeenIndex = (await storage.getItem(storageKey(apiType))) || {};
+  return Object.keys(index).length;
+}
+
+export async function clearSeenRecords(apiType: string) {
+  await storage.removeItem(storageKey(apiType));
+}
@@ -0,0 +1,45 @@
+// electron/sessionCheck.ts
+
+import { ScrapeData, SessionEstimate } from './preload';
+import { getApiType, getEnrichBatchSize } from './apiTypes';
+import { getSessionExpiry, toCookieList } from './cookieFormats';
+import { getFirstPage, getPageSize } from './pagination';
+import { getSettings } from './settings';
+
+// Time a request itself usually takes, on top of the delay before the next one
+const REQUEST_TIME_MS = 2000;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Search pages plus, for API types with an enrichment step, one request per batch of records
+function countRequests(scrapeData: ScrapeData): number {
+  const definition = getApiType(scrapeData.apiType);
+  const { skipRows } = getFirstPage(definition, scrapeData.payload, scrapeData.startIdx);
+  const searchRequests = Math.ceil((skipRows + scrapeData.totalResults) / getPageSize(definition, scrapeData.payload));
+  if (!definition.enrichment) return searchRequests;
+  const batchSize = getEnrichBatchSize(definition.enrichment, scrapeData.enrichBatchSize);
+  return searchRequests + Math.ceil(scrapeData.totalResults / batchSize);
+}
+
+/**
+ * Rough run time of a job: the average delay between its requests, or the hourly and daily
+ * request budgets when they are slower. Time spent outside the run windows is not counted.
+ */
+export function estimateJobDuration(scrapeData: ScrapeData): number {
+  const { requestDelayMinMs, requestDelayMaxMs, maxRequestsPerHour, maxRequestsPerDay } = getSettings();
+  const requests = countRequests(scrapeData);
+  const paced = requests * ((requestDelayMinMs + requestDelayMaxMs) / 2 + REQUEST_TIME_MS);
+  const hourly = maxRequestsPerHour > 0 ? (requests / maxRequestsPerHour) * HOUR_MS : 0;
+  const daily = maxRequestsPerDay > 0 ? Math.floor(requests / maxRequestsPerDay) * 24 * HOUR_MS : 0;
+  return Math.max(paced, hourly, daily);
+}
+
+export function estimateSession(scrapeData: ScrapeData): SessionEstimate {
+  const expiresAt = getSessionExpiry(toCookieList(scrapeData.cookies));
+  const durationMs = estimateJobDuration(scrapeData);
+  return {
+    expiresAt,
+    durationMs,
+    outlastsSession: expiresAt !== undefined && Date.now() + durationMs > Date.parse(expiresAt)
+  };
+}
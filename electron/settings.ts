@@ -0,0 +1,107 @@
+// electron/settings.ts
+
+import storage from 'node-persist';
+import { AppSettings, RunWindow } from './preload';
+
+export const ZOOMINFO_BASE_URL = 'https://app.zoominfo.com';
+
+// Shortest wait between two requests the settings accept
+export const MIN_REQUEST_DELAY_MS = 2000;
+
+// ZOOMINFO_BASE_URL in the environment overrides the saved setting, e.g. to point a
+// development build at the mock server without touching the user's settings.
+const defaultSettings: AppSettings = {
+  baseUrl: ZOOMINFO_BASE_URL,
+  monthlyCreditCap: 0,
+  creditConfirmThreshold: 100,
+  retryMaxAttempts: 5,
+  retryBaseDelayMs: 5000,
+  retryMaxDelayMs: 5 * 60 * 1000,
+  requestTimeoutMs: 30000,
+  cookieRenewalTimeoutMs: 30 * 60 * 1000,
+  requestDelayMinMs: 5000,
+  requestDelayMaxMs: 15000,
+  maxRequestsPerHour: 0,
+  maxRequestsPerDay: 0,
+  runWindows: []
+};
+
+let settings: AppSettings = { ...defaultSettings };
+
+export function normalizeBaseUrl(value: string): string {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch (error) {
+    throw new Error(`Invalid base URL: ${value}`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('The base URL must start with http:// or https://.');
+  }
+  return `${url.origin}${url.pathname}`.replace(/\/+$/, '');
+}
+
+function validateRunWindow(runWindow: RunWindow) {
+  const time = /^([01]\d|2[0-3]):[0-5]\d$/;
+  if (!time.test(runWindow.start) || !time.test(runWindow.end)) {
+    throw new Error('Run windows need a start and end time such as 08:00.');
+  }
+  if (runWindow.start === runWindow.end) {
+    throw new Error('A run window must end at a different time than it starts.');
+  }
+  if (runWindow.days.length === 0 || runWindow.days.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+    throw new Error('Every run window needs at least one day.');
+  }
+}
+
+export async function loadSettings(): Promise<AppSettings> {
+  const saved: Partial<AppSettings> = (await storage.getItem('settings')) || {};
+  settings = { ...defaultSettings, ...saved };
+  return settings;
+}
+
+export async function saveSettings(changes: Partial<AppSettings>): Promise<AppSettings> {
+  const updated = { ...settings, ...changes };
+  updated.baseUrl = normalizeBaseUrl(updated.baseUrl);
+  if (!(updated.monthlyCreditCap >= 0) || !(updated.creditConfirmThreshold >= 0)) {
+    throw new Error('Credit limits must be zero or a positive number.');
+  }
+  if (!Number.isInteger(updated.retryMaxAttempts) || updated.retryMaxAttempts < 1) {
+    throw new Error('The number of attempts must be at least 1.');
+  }
+  if (!(updated.retryBaseDelayMs >= 0) || !(updated.retryMaxDelayMs >= updated.retryBaseDelayMs)) {
+    throw new Error('The maximum retry delay must be at least the first retry delay.');
+  }
+  if (!(updated.requestTimeoutMs >= 1000)) {
+    throw new Error('Requests must be allowed at least one second.');
+  }
+  if (!(updated.cookieRenewalTimeoutMs >= 60 * 1000)) {
+    throw new Error('Jobs must wait at least one minute for new cookies.');
+  }
+  if (!(updated.requestDelayMinMs >= MIN_REQUEST_DELAY_MS)) {
+    throw new Error(`The delay between requests must be at least ${MIN_REQUEST_DELAY_MS / 1000} seconds.`);
+  }
+  if (!(updated.requestDelayMaxMs >= updated.requestDelayMinMs)) {
+    throw new Error('The longest delay between requests must be at least the shortest.');
+  }
+  if (
+    !Number.isInteger(updated.maxRequestsPerHour) ||
+    !Number.isInteger(updated.maxRequestsPerDay) ||
+    updated.maxRequestsPerHour < 0 ||
+    updated.maxRequestsPerDay < 0
+  ) {
+    throw new Error('Request limits must be zero or a whole positive number.');
+  }
+  updated.runWindows.forEach(validateRunWindow);
+  settings = updated;
+  await storage.setItem('settings', settings);
+  return settings;
+}
+
+export function getSettings(): AppSettings {
+  return settings;
+}
+
+export function getBaseUrl(): string {
+  return process.env.ZOOMINFO_BASE_URL ? normalizeBaseUrl(process.env.ZOOMINFO_BASE_URL) : settings.baseUrl;
+}
@@ -1,15 +1,54 @@
 // src/App.tsx
 
 import React, { useState, useEffect } from 'react';
-import { ScrapeData, ProgressUpdate } from '../electron/preload';
 import { Dialog } from '@material-tailwind/react';
 import { Button } from '@material-tailwind/react';
 import { Select, Option } from '@material-tailwind/react';
 import { Textarea } from '@material-tailwind/react';
 import { Input } from '@material-tailwind/react';
 import { Progress } from '@material-tailwind/react';
+import { Checkbox } from '@material-tailwind/react';
 import { clsx } from 'clsx';
+import {
+  ApiRecord,
+  ScrapeData,
+  ProgressUpdate,
+  JobCheckpoint,
+  QueuedJob,
+  QueueState,
+  ApiTypeInfo,
+  AppSettings,
+  OutputFileInfo,
+  DedupeMode,
+  ColumnTemplate,
+  CreditEstimate,
+  CreditLedger,
+  LogEntry,
+  JobSchedule,
+  IncrementalCursor,
+  BrowserCookie,
+  CookieParseResult,
+  CookieRenewalRequest,
+  ImportedJob,
+  JobPreset,
+  FilterValues,
+  PayloadFilters,
+  SessionEstimate,
+  SessionTestResult
+} from '../electron/preload';
+import JobQueue from './components/JobQueue';
+import ColumnTemplateEditor from './components/ColumnTemplateEditor';
+import CreditUsage from './components/CreditUsage';
+import ProgressDetails, { formatDuration } from './components/ProgressDetails';
+import ActivityPanel from './components/ActivityPanel';
+import RequestLimitsSettings from './components/RequestLimitsSettings';
+import ScheduleList, { ScheduleDetails } from './components/ScheduleList';
+import CookieRenewalDialog from './components/CookieRenewalDialog';
+import ImportJobDialog from './components/ImportJobDialog';
+import FilterBuilder from './components/FilterBuilder';
+import PresetLibrary, { PresetDetails } from './components/PresetLibrary';
 import './App.css';
+import noop from './noop';
 
 declare global {
   interface Window {
@@ -20,10 +59,18 @@ declare global {
 function App() {
   const [apiType, setApiType] = useState<string>('Company Search');
   const [cookiesText, setCookiesText] = useState<string>('');
+  const [cookieCheck, setCookieCheck] = useState<CookieParseResult | null>(null);
+  const [sessionTest, setSessionTest] = useState<SessionTestResult | null>(null);
+  const [testingSession, setTestingSession] = useState<boolean>(false);
   const [payloadText, setPayloadText] = useState<string>('');
+  // The payload is edited with the filter builder or as raw JSON; both write payloadText
+  const [payloadMode, setPayloadMode] = useState<'filters' | 'json'>('json');
+  const [payloadFilters, setPayloadFilters] = useState<PayloadFilters>({ values: {}, unsupported: [] });
   const [resultsCount, setResultsCount] = useState<string>('25');
   const [savePath, setSavePath] = useState<string>('');
   const [progress, setProgress] = useState<number>(0);
+  const [progressDetails, setProgressDetails] = useState<ProgressUpdate | null>(null);
+  const [logEntries, setLogEntries] = useState<LogEntry[]>([]);
   const [isScraping, setIsScraping] = useState<boolean>(false);
   const [isPaused, setIsPaused] = useState<boolean>(false);
   const [canStart, setCanStart] = useState<boolean>(false);
@@ -33,6 +80,57 @@ function App() {
   const [modalType, setModalType] = useState<'success' | 'error' | 'info'>('info');
 
   const [startIndex, setStartIndex] = useState<string>('0');
+  const [previousJob, setPreviousJob] = useState<JobCheckpoint | null>(null);
+  const [queue, setQueue] = useState<QueuedJob[]>([]);
+  const [schedules, setSchedules] = useState<JobSchedule[]>([]);
+  const [presets, setPresets] = useState<JobPreset[]>([]);
+  const [apiOptions, setApiOptions] = useState<ApiTypeInfo[]>([]);
+  const [baseUrl, setBaseUrl] = useState<string>('');
+  const [outputFileInfo, setOutputFileInfo] = useState<OutputFileInfo | null>(null);
+  const [appendToExisting, setAppendToExisting] = useState<boolean>(false);
+  const [dedupeMode, setDedupeMode] = useState<DedupeMode>('off');
+  const [refreshAfterDays, setRefreshAfterDays] = useState<string>('30');
+  const [seenCount, setSeenCount] = useState<number>(0);
+  const [incremental, setIncremental] = useState<boolean>(false);
+  const [stopBeforeDate, setStopBeforeDate] = useState<string>('');
+  const [incrementalCursor, setIncrementalCursor] = useState<IncrementalCursor | null>(null);
+  const [columnTemplates, setColumnTemplates] = useState<ColumnTemplate[]>([]);
+  const [templateId, setTemplateId] = useState<string>('');
+  const [editingTemplate, setEditingTemplate] = useState<ColumnTemplate | null>(null);
+  const [sourcePaths, setSourcePaths] = useState<string[]>([]);
+  const [archiveResponses, setArchiveResponses] = useState<boolean>(false);
+  const [enrichBatchSize, setEnrichBatchSize] = useState<string>('');
+  const [creditCap, setCreditCap] = useState<string>('');
+  const [monthlyCreditCap, setMonthlyCreditCap] = useState<string>('0');
+  const [creditConfirmThreshold, setCreditConfirmThreshold] = useState<string>('100');
+  const [appSettings, setAppSettings] = useState<AppSettings | null>(null);
+  const [retryMaxAttempts, setRetryMaxAttempts] = useState<string>('5');
+  const [retryBaseDelay, setRetryBaseDelay] = useState<string>('5');
+  const [retryMaxDelay, setRetryMaxDelay] = useState<string>('300');
+  const [cookieRenewalTimeout, setCookieRenewalTimeout] = useState<string>('30');
+  // Request blocked by an expired session while the renewal dialog is open
+  const [cookieRenewal, setCookieRenewal] = useState<CookieRenewalRequest | null>(null);
+  const [importOpen, setImportOpen] = useState<boolean>(false);
+  const [creditLedger, setCreditLedger] = useState<CreditLedger>({ jobs: {}, days: {} });
+  const [creditCapMessage, setCreditCapMessage] = useState<string>('');
+  const [raisedCreditCap, setRaisedCreditCap] = useState<string>('');
+  // Settles the open confirmation: true for Continue, false when it was closed
+  const [confirmAction, setConfirmAction] = useState<((confirmed: boolean) => void) | null>(null);
+
+  const apiInfo = apiOptions.find((option) => option.name === apiType);
+
+  const apiTemplates = columnTemplates.filter((template) => template.apiType === apiType);
+  const selectedTemplate = apiTemplates.find((template) => template.id === templateId);
+
+  // The cookie format is detected (and the session cookies looked for) as the text changes
+  useEffect(() => {
+    setSessionTest(null);
+    if (cookiesText.trim() === '') {
+      setCookieCheck(null);
+      return;
+    }
+    window.electronAPI.inspectCookies(cookiesText).then(setCookieCheck);
+  }, [cookiesText]);
 
   useEffect(() => {
     setCanStart(
@@ -44,9 +142,63 @@ function App() {
     );
   }, [cookiesText, payloadText, savePath, resultsCount, startIndex]);
 
+  // Re-check the chosen file whenever the path or the API type (and so the columns) changes
+  useEffect(() => {
+    if (!savePath) {
+      setOutputFileInfo(null);
+      return;
+    }
+    window.electronAPI.inspectOutputFile(savePath, apiType, selectedTemplate).then((info: OutputFileInfo) => {
+      setOutputFileInfo(info);
+      setAppendToExisting(info.canAppend);
+    });
+  }, [savePath, apiType, selectedTemplate]);
+
+  // Templates belong to one API type
+  useEffect(() => {
+    setEditingTemplate(null);
+  }, [apiType]);
+
+  // Another API type has other filters, so the builder reads them from the payload again
+  useEffect(() => {
+    if (payloadMode !== 'filters') return;
+    if (!apiInfo?.filterFields.length) {
+      setPayloadMode('json');
+      return;
+    }
+    try {
+      window.electronAPI.readPayloadFilters(apiType, JSON.parse(payloadText || 'null')).then(setPayloadFilters);
+    } catch (e) {
+      setPayloadMode('json');
+    }
+  }, [apiType, apiInfo]);
+
+  // Size of the seen-records index, refreshed as jobs finish
+  useEffect(() => {
+    window.electronAPI.countSeenRecords(apiType).then(setSeenCount);
+  }, [apiType, queue]);
+
+  // Newest record captured for this payload by earlier incremental runs
+  useEffect(() => {
+    if (!apiInfo?.supportsIncremental) {
+      setIncrementalCursor(null);
+      return;
+    }
+    try {
+      window.electronAPI.getIncrementalCursor(apiType, JSON.parse(payloadText)).then(setIncrementalCursor);
+    } catch (e) {
+      setIncrementalCursor(null);
+    }
+  }, [apiType, apiInfo, payloadText, queue]);
+
+  useEffect(() => {
+    window.electronAPI.getCreditLedger().then(setCreditLedger);
+  }, [queue, progress]);
+
   useEffect(() => {
     const handleProgressUpdate = (data: ProgressUpdate) => {
       setProgress(data.progressPercentage);
+      setProgressDetails(data);
     };
 
     const handleScrapingFinished = () => {
@@ -58,34 +210,36 @@ function App() {
     const handleScrapingStopped = () => {
       setIsScraping(false);
       setIsPaused(false);
+      setCookieRenewal(null);
       showModal('Scraping Stopped', 'Scraping has been stopped by the user.', 'info');
     };
 
+    // The queue keeps running after a failed job, so the running state comes from queue updates
     const handleError = (error: string) => {
-      setIsScraping(false);
-      setIsPaused(false);
       showModal('Error', error, 'error');
     };
 
-    const handleRequestNewCookies = () => {
-      const newCookies = prompt(
-        'Cookies have expired. Please enter new cookies (JSON format):',
-        cookiesText
-      );
-      if (newCookies) {
-        try {
-          const parsedCookies = JSON.parse(newCookies);
-          setCookiesText(newCookies);
-          window.electronAPI.updateCookies(parsedCookies);
-        } catch (e) {
-          showModal('Error', 'Invalid JSON format for cookies.', 'error');
-        }
-      } else {
-        showModal('Error', 'No new cookies provided. Scraping will stop.', 'error');
-        window.electronAPI.stopScraping();
+    const handleQueueUpdated = (state: QueueState) => {
+      setQueue(state.jobs);
+      setIsScraping(state.running);
+      if (!state.running) {
+        setIsPaused(false);
       }
     };
 
+    const handleRequestNewCookies = (request: CookieRenewalRequest) => {
+      setModalVisible(false);
+      setCookieRenewal(request);
+    };
+
+    // The job was stopped with its checkpoint because nobody renewed the cookies in time
+    const handleCookieRenewalTimedOut = (message: string) => {
+      setCookieRenewal(null);
+      setIsScraping(false);
+      setIsPaused(false);
+      showModal('Scraping Stopped', message, 'info');
+    };
+
     const handleAutoPause = () => {
       setIsPaused(true);
       showModal('Auto-Pause', 'The system has paused scraping due to sleep mode.', 'info');
@@ -96,14 +250,45 @@ function App() {
       showModal('Auto-Resume', 'Scraping has resumed as the system woke up.', 'info');
     };
 
+    const handleRestoreAppState = (state: JobCheckpoint) => {
+      setPreviousJob(state);
+    };
+
     window.electronAPI.onProgressUpdate(handleProgressUpdate);
     window.electronAPI.onScrapingFinished(handleScrapingFinished);
     window.electronAPI.onScrapingStopped(handleScrapingStopped);
     window.electronAPI.onError(handleError);
     window.electronAPI.onRequestNewCookies(handleRequestNewCookies);
+    window.electronAPI.onCookieRenewalTimedOut(handleCookieRenewalTimedOut);
 
     window.electronAPI.onAutoPause(handleAutoPause);
     window.electronAPI.onAutoResume(handleAutoResume);
+    window.electronAPI.onRestoreAppState(handleRestoreAppState);
+    window.electronAPI.onQueueUpdated(handleQueueUpdated);
+    window.electronAPI.getQueue().then(handleQueueUpdated);
+    window.electronAPI.getApiTypes().then(setApiOptions);
+    window.electronAPI.getSettings().then((settings: AppSettings) => {
+      setAppSettings(settings);
+      setBaseUrl(settings.baseUrl);
+      setMonthlyCreditCap(String(settings.monthlyCreditCap));
+      setCreditConfirmThreshold(String(settings.creditConfirmThreshold));
+      setRetryMaxAttempts(String(settings.retryMaxAttempts));
+      setRetryBaseDelay(String(settings.retryBaseDelayMs / 1000));
+      setRetryMaxDelay(String(settings.retryMaxDelayMs / 1000));
+      setCookieRenewalTimeout(String(settings.cookieRenewalTimeoutMs / 60000));
+    });
+    window.electronAPI.onCreditCapReached((message: string) => {
+      setIsPaused(true);
+      setCreditCapMessage(message);
+    });
+    window.electronAPI.getColumnTemplates().then(setColumnTemplates);
+    window.electronAPI.getLogEntries().then(setLogEntries);
+    window.electronAPI.getSchedules().then(setSchedules);
+    window.electronAPI.getJobPresets().then(setPresets);
+    window.electronAPI.onSchedulesUpdated(setSchedules);
+    window.electronAPI.onLogEntry((entry: LogEntry) => {
+      setLogEntries((current) => [...current.slice(-999), entry]);
+    });
 
 
     return () => {
@@ -122,65 +307,407 @@ function App() {
     setModalVisible(true);
   };
 
+  const askConfirm = (title: string, message: string) =>
+    new Promise<boolean>((resolve) => {
+      setConfirmAction(() => resolve);
+      showModal(title, message, 'info');
+    });
+
   const closeModal = () => {
     setModalVisible(false);
+    confirmAction?.(false);
+    setConfirmAction(null);
+  };
+
+  const handleConfirm = () => {
+    confirmAction?.(true);
+    closeModal();
+  };
+
+  const buildScrapeData = (): ScrapeData | null => {
+    if (!canStart) {
+      showModal('Missing Information', 'Please fill all required fields before starting the scraping.', 'error');
+      return null;
+    }
+    if (!cookieCheck || cookieCheck.error) {
+      showModal('Invalid Cookies', cookieCheck?.error || 'The cookies are still being read.', 'error');
+      return null;
+    }
+    try {
+      const { cookies } = cookieCheck;
+      const payload = JSON.parse(payloadText);
+      const totalResults = parseInt(resultsCount, 10); // Ensure parsing as number
+      const startIdx = parseInt(startIndex, 10); // Ensure parsing as number
+
+      if (Number.isNaN(totalResults) || totalResults <= 0) {
+        showModal('Error', 'Please enter a valid number for "Number of Results".', 'error');
+        return null;
+      }
+
+      if (Number.isNaN(startIdx) || startIdx < 0) {
+        showModal('Error', 'Please enter a valid start index.', 'error');
+        return null;
+      }
+
+      const batchSize = enrichBatchSize.trim() === '' ? undefined : parseInt(enrichBatchSize, 10);
+      if (
+        apiInfo?.hasEnrichment &&
+        batchSize !== undefined &&
+        (Number.isNaN(batchSize) || batchSize < 1 || batchSize > (apiInfo.maxBatchSize || 1))
+      ) {
+        showModal('Error', `Please enter a batch size between 1 and ${apiInfo.maxBatchSize}.`, 'error');
+        return null;
+      }
+
+      const jobCreditCap = creditCap.trim() === '' ? undefined : parseInt(creditCap, 10);
+      if (apiInfo?.hasEnrichment && jobCreditCap !== undefined && (Number.isNaN(jobCreditCap) || jobCreditCap < 1)) {
+        showModal('Error', 'Please enter a valid credit cap, or leave it empty for no cap.', 'error');
+        return null;
+      }
+
+      const refreshDays = parseInt(refreshAfterDays, 10);
+      if (dedupeMode === 'refresh' && (Number.isNaN(refreshDays) || refreshDays <= 0)) {
+        showModal('Error', 'Please enter a valid number of days for re-fetching known records.', 'error');
+        return null;
+      }
+
+      return {
+        apiType,
+        cookies,
+        payload,
+        totalResults,
+        startIdx,
+        savePath,
+        appendToExisting: Boolean(outputFileInfo?.canAppend && appendToExisting),
+        dedupeMode,
+        refreshAfterDays: dedupeMode === 'refresh' ? refreshDays : undefined,
+        columnTemplate: selectedTemplate,
+        archiveResponses,
+        enrichBatchSize: apiInfo?.hasEnrichment ? batchSize : undefined,
+        creditCap: apiInfo?.hasEnrichment ? jobCreditCap : undefined,
+        incremental: apiInfo?.supportsIncremental ? incremental : undefined,
+        stopBeforeDate: apiInfo?.supportsIncremental && stopBeforeDate ? stopBeforeDate : undefined,
+        headers: {}
+      };
+    } catch (e) {
+      showModal('Error', `Error: ${(e as Error).message}`, 'error');
+      return null;
+    }
   };
 
-  const handleStart = () => {
+  // Refuses a payload the job could not page through before anything is queued
+  const checkPagination = async (scrapeData: ScrapeData) => {
+    const problem = await window.electronAPI.checkPagination(scrapeData.apiType, scrapeData.payload);
+    if (problem) {
+      showModal('Invalid Payload', problem, 'error');
+      return false;
+    }
+    return true;
+  };
+
+  // Asks before queueing a job that may spend more credits than the threshold or this month's cap allows
+  const confirmCredits = async (scrapeData: ScrapeData) => {
+    const estimate: CreditEstimate = await window.electronAPI.estimateCredits(scrapeData);
+    const overThreshold = estimate.confirmThreshold > 0 && estimate.credits > estimate.confirmThreshold;
+    const overMonthlyCap = estimate.monthlyCap > 0 && estimate.monthSpent + estimate.credits > estimate.monthlyCap;
+    if (!overThreshold && !overMonthlyCap) {
+      return true;
+    }
+    const monthUsage =
+      estimate.monthlyCap > 0
+        ? `${estimate.monthSpent} of the ${estimate.monthlyCap} monthly credits are already spent`
+        : `${estimate.monthSpent} credits were spent this month`;
+    return askConfirm(
+      'Confirm Credit Usage',
+      `This job may spend up to ${estimate.credits} credits, and ${monthUsage}.${
+        overMonthlyCap ? ' The job will pause when the monthly cap is reached.' : ''
+      } Continue?`
+    );
+  };
+
+  // Warns when the session cookies will likely expire before the job is done
+  const confirmSession = async (scrapeData: ScrapeData) => {
+    const estimate: SessionEstimate = await window.electronAPI.estimateSession(scrapeData);
+    if (!estimate.outlastsSession || !estimate.expiresAt) {
+      return true;
+    }
+    const expiresAt = new Date(estimate.expiresAt).toLocaleString();
+    const duration = formatDuration(Math.round(estimate.durationMs / 1000));
+    return askConfirm(
+      'Session May Expire',
+      `The session cookies expire ${expiresAt}, but this job will likely run for ${duration}. The job will wait for new cookies when the session expires. Continue?`
+    );
+  };
+
+  // Runs the checks before a job is queued; false when the payload is invalid or the user declined
+  const confirmJob = async (scrapeData: ScrapeData) =>
+    (await checkPagination(scrapeData)) && (await confirmSession(scrapeData)) && confirmCredits(scrapeData);
+
+  const handleTestSession = async () => {
+    if (!cookieCheck || cookieCheck.error) {
+      showModal('Invalid Cookies', cookieCheck?.error || 'Please paste the cookies first.', 'error');
+      return;
+    }
+    let payload: ApiRecord;
+    try {
+      payload = JSON.parse(payloadText);
+    } catch (e) {
+      showModal(
+        'Error',
+        'The test sends the first search request of the job, so please paste the JSON payload first.',
+        'error'
+      );
+      return;
+    }
+    setTestingSession(true);
+    try {
+      setSessionTest(
+        await window.electronAPI.testSession({
+          apiType,
+          cookies: cookieCheck.cookies,
+          payload,
+          totalResults: 0,
+          startIdx: 0,
+          savePath: '',
+          headers: {}
+        })
+      );
+    } finally {
+      setTestingSession(false);
+    }
+  };
+
+  const handleStart = async () => {
     if (isScraping) {
       window.electronAPI.stopScraping();
       setIsScraping(false);
       setIsPaused(false);
       setProgress(0);
+      setProgressDetails(null);
     } else {
-      if (!canStart) {
-        showModal(
-          'Missing Information',
-          'Please fill all required fields before starting the scraping.',
-          'error'
-        );
+      const scrapeData = buildScrapeData();
+      if (!scrapeData) return;
+
+      try {
+        if (!(await confirmJob(scrapeData))) return;
+      } catch (e) {
+        showModal('Error', `The job could not be checked: ${(e as Error).message}`, 'error');
         return;
       }
-      try {
-        const cookies = JSON.parse(cookiesText);
-        const payload = JSON.parse(payloadText);
-        const totalResults = parseInt(resultsCount, 10); // Ensure parsing as number
-        const startIdx = parseInt(startIndex, 10); // Ensure parsing as number
-
-        if (isNaN(totalResults) || totalResults <= 0) {
-          showModal('Error', 'Please enter a valid number for "Number of Results".', 'error');
-          return;
-        }
-
-        if (isNaN(startIdx) || startIdx < 0) {
-          showModal('Error', 'Please enter a valid start index.', 'error');
-          return;
-        }
-
-        const scrapeData: ScrapeData = {
-          apiType,
-          cookies,
-          payload,
-          totalResults,
-          startIdx,
-          savePath,
-          headers: {}
-        };
+      // Queues the job and starts the queue with it
+      window.electronAPI.startScraping(scrapeData);
+      setIsScraping(true);
+      setProgress(0);
+      setProgressDetails(null);
+    }
+  };
+
+  const handleAddToQueue = async () => {
+    const scrapeData = buildScrapeData();
+    if (!scrapeData) return;
+    try {
+      if (await confirmJob(scrapeData)) {
+        window.electronAPI.addJob(scrapeData);
+      }
+    } catch (e) {
+      showModal('Error', `The job could not be checked: ${(e as Error).message}`, 'error');
+    }
+  };
+
+  const handleStartQueue = () => {
+    window.electronAPI.startQueue();
+    setIsScraping(true);
+    setProgress(0);
+    setProgressDetails(null);
+  };
+
+  const hasPendingJobs = queue.some((job) => job.status === 'pending');
+
+  const handleCreateSchedule = async (details: ScheduleDetails) => {
+    const scrapeData = buildScrapeData();
+    if (!scrapeData) return;
+    try {
+      const schedule: JobSchedule = await window.electronAPI.saveSchedule({
+        ...details,
+        id: '',
+        scrapeData,
+        enabled: true
+      });
+      setSchedules(await window.electronAPI.getSchedules());
+      showModal(
+        'Schedule Saved',
+        `"${schedule.name}" first runs ${new Date(schedule.nextRunAt || '').toLocaleString()} while the app is open.`,
+        'success'
+      );
+    } catch (e) {
+      showModal('Error', (e as Error).message, 'error');
+    }
+  };
+
+  const handleToggleSchedule = async (schedule: JobSchedule) => {
+    try {
+      await window.electronAPI.saveSchedule({ ...schedule, enabled: !schedule.enabled });
+      setSchedules(await window.electronAPI.getSchedules());
+    } catch (e) {
+      showModal('Error', (e as Error).message, 'error');
+    }
+  };
+
+  const handleDeleteSchedule = async (scheduleId: string) => {
+    await window.electronAPI.deleteSchedule(scheduleId);
+    setSchedules(await window.electronAPI.getSchedules());
+  };
+
+  // Saving under the name of an existing preset updates that preset
+  const handleSavePreset = async (details: PresetDetails) => {
+    let payload: ApiRecord | null = null;
+    try {
+      payload = payloadText.trim() === '' ? null : JSON.parse(payloadText);
+    } catch (e) {
+      showModal('Invalid Payload', `Please fix the JSON before saving the preset: ${(e as Error).message}`, 'error');
+      return;
+    }
+    if (details.includeCookies && (!cookieCheck || cookieCheck.error)) {
+      showModal(
+        'Invalid Cookies',
+        cookieCheck?.error || 'Please paste the cookies to save them with the preset.',
+        'error'
+      );
+      return;
+    }
+    const optionalNumber = (text: string) => {
+      const value = parseInt(text, 10);
+      return Number.isNaN(value) ? undefined : value;
+    };
+    const existing = presets.find((preset) => preset.name.toLowerCase() === details.name.trim().toLowerCase());
+    try {
+      const preset: JobPreset = await window.electronAPI.saveJobPreset({
+        id: existing?.id || '',
+        name: details.name,
+        tags: details.tags,
+        apiType,
+        payload,
+        totalResults: optionalNumber(resultsCount),
+        startIdx: optionalNumber(startIndex),
+        savePath,
+        dedupeMode,
+        refreshAfterDays: optionalNumber(refreshAfterDays),
+        columnTemplateId: templateId || undefined,
+        archiveResponses,
+        enrichBatchSize: optionalNumber(enrichBatchSize),
+        creditCap: optionalNumber(creditCap),
+        incremental,
+        stopBeforeDate: stopBeforeDate || undefined,
+        cookies: details.includeCookies ? cookieCheck?.cookies : undefined,
+        updatedAt: ''
+      });
+      setPresets(await window.electronAPI.getJobPresets());
+      showModal(
+        'Preset Saved',
+        `${existing ? 'Updated' : 'Saved'} "${preset.name}" ${preset.cookies ? 'with' : 'without'} cookies.`,
+        'success'
+      );
+    } catch (e) {
+      showModal('Error', (e as Error).message, 'error');
+    }
+  };
+
+  // Fills the form from a preset; cookies are only replaced when the preset has some
+  const handleLoadPreset = (preset: JobPreset) => {
+    setApiType(preset.apiType);
+    setPayloadMode('json');
+    setPayloadText(preset.payload === null ? '' : JSON.stringify(preset.payload, null, 2));
+    setResultsCount(preset.totalResults === undefined ? '' : String(preset.totalResults));
+    setStartIndex(String(preset.startIdx ?? 0));
+    setSavePath(preset.savePath);
+    setDedupeMode(preset.dedupeMode || 'off');
+    setRefreshAfterDays(String(preset.refreshAfterDays ?? 30));
+    const templateExists = columnTemplates.some((template) => template.id === preset.columnTemplateId);
+    setTemplateId(templateExists ? preset.columnTemplateId || '' : '');
+    setArchiveResponses(Boolean(preset.archiveResponses));
+    setEnrichBatchSize(preset.enrichBatchSize ? String(preset.enrichBatchSize) : '');
+    setCreditCap(preset.creditCap ? String(preset.creditCap) : '');
+    setIncremental(Boolean(preset.incremental));
+    setStopBeforeDate(preset.stopBeforeDate || '');
+    if (preset.cookies) {
+      setCookiesText(JSON.stringify(preset.cookies, null, 2));
+    }
+  };
+
+  const handleDuplicatePreset = async (presetId: string) => {
+    try {
+      await window.electronAPI.duplicateJobPreset(presetId);
+      setPresets(await window.electronAPI.getJobPresets());
+    } catch (e) {
+      showModal('Error', (e as Error).message, 'error');
+    }
+  };
+
+  const handleDeletePreset = async (presetId: string) => {
+    await window.electronAPI.deleteJobPreset(presetId);
+    setPresets(await window.electronAPI.getJobPresets());
+  };
 
-        window.electronAPI.startScraping(scrapeData);
-        setIsScraping(true);
-        setProgress(0);
-      } catch (e: any) {
-        showModal('Error', `Error: ${e.message}`, 'error');
+  const handleExportPresets = async (presetIds: string[], includeCookies: boolean) => {
+    try {
+      const filePath = await window.electronAPI.exportJobPresets(presetIds, includeCookies);
+      if (filePath) {
+        showModal('Presets Exported', `${presetIds.length} presets were written to ${filePath}.`, 'success');
       }
+    } catch (e) {
+      showModal('Error', (e as Error).message, 'error');
     }
   };
 
+  const handleImportPresets = async () => {
+    try {
+      const imported = await window.electronAPI.importJobPresets();
+      if (imported !== null) {
+        setPresets(await window.electronAPI.getJobPresets());
+        showModal('Presets Imported', `${imported} presets were added.`, 'success');
+      }
+    } catch (e) {
+      showModal('Error', (e as Error).message, 'error');
+    }
+  };
+
+  const handleResumePreviousJob = () => {
+    if (!previousJob) return;
+    const { scrapeData } = previousJob;
+
+    // Restore the form so it reflects the job being continued
+    setApiType(scrapeData.apiType);
+    setCookiesText(JSON.stringify(scrapeData.cookies, null, 2));
+    setPayloadText(JSON.stringify(scrapeData.payload, null, 2));
+    setResultsCount(String(scrapeData.totalResults));
+    setStartIndex(String(scrapeData.startIdx));
+    setSavePath(scrapeData.savePath);
+    setTemplateId(scrapeData.columnTemplate?.id || '');
+    setArchiveResponses(Boolean(scrapeData.archiveResponses));
+    setEnrichBatchSize(scrapeData.enrichBatchSize ? String(scrapeData.enrichBatchSize) : '');
+    setIncremental(Boolean(scrapeData.incremental));
+    setStopBeforeDate(scrapeData.stopBeforeDate || '');
+    setDedupeMode(scrapeData.dedupeMode || 'off');
+    setRefreshAfterDays(String(scrapeData.refreshAfterDays ?? 30));
+    setCreditCap(scrapeData.creditCap ? String(scrapeData.creditCap) : '');
+
+    window.electronAPI.resumePreviousJob();
+    setPreviousJob(null);
+    setIsScraping(true);
+    setIsPaused(false);
+    setProgress(Math.min((previousJob.resultsCollected / scrapeData.totalResults) * 100, 100));
+  };
+
+  const handleDiscardPreviousJob = () => {
+    window.electronAPI.discardPreviousJob();
+    setPreviousJob(null);
+  };
 
   const handlePauseResume = () => {
     if (isPaused) {
       window.electronAPI.resumeScraping();
       setIsPaused(false);
+      setCreditCapMessage('');
     } else {
       window.electronAPI.pauseScraping();
       setIsPaused(true);
@@ -200,20 +727,200 @@ function App() {
       if (exists) {
         window.electronAPI.openFile(savePath);
       } else {
-        showModal('File Not Found', 'The CSV file does not exist yet.', 'error');
+        showModal('File Not Found', 'The output file does not exist yet.', 'error');
       }
     }
   };
 
-  const apiOptions = [
-    'Company Search',
-    'Person Search',
-    'Contact Search',
-    'Scoops Search',
-  ];
+  const handleSaveBaseUrl = async () => {
+    try {
+      const settings: AppSettings = await window.electronAPI.saveSettings({ baseUrl });
+      setBaseUrl(settings.baseUrl);
+      showModal('Settings Saved', `Requests will be sent to ${settings.baseUrl}.`, 'success');
+    } catch (e) {
+      showModal('Error', (e as Error).message, 'error');
+    }
+  };
+
+  const openTemplateEditor = async (template: ColumnTemplate) => {
+    setSourcePaths(await window.electronAPI.getSourcePaths(apiType));
+    setEditingTemplate(template);
+  };
+
+  const handleSaveTemplate = async (template: ColumnTemplate) => {
+    try {
+      const saved: ColumnTemplate = await window.electronAPI.saveColumnTemplate(template);
+      setColumnTemplates(await window.electronAPI.getColumnTemplates());
+      setTemplateId(saved.id);
+      setEditingTemplate(null);
+    } catch (e) {
+      showModal('Error', (e as Error).message, 'error');
+    }
+  };
+
+  const handleDeleteTemplate = async (id: string) => {
+    await window.electronAPI.deleteColumnTemplate(id);
+    setColumnTemplates(await window.electronAPI.getColumnTemplates());
+    setTemplateId('');
+    setEditingTemplate(null);
+  };
+
+  const handleSaveCreditLimits = async () => {
+    try {
+      const settings: AppSettings = await window.electronAPI.saveSettings({
+        monthlyCreditCap: parseInt(monthlyCreditCap, 10),
+        creditConfirmThreshold: parseInt(creditConfirmThreshold, 10)
+      });
+      setMonthlyCreditCap(String(settings.monthlyCreditCap));
+      setCreditConfirmThreshold(String(settings.creditConfirmThreshold));
+      showModal('Settings Saved', 'The credit limits were saved.', 'success');
+    } catch (e) {
+      showModal('Error', (e as Error).message, 'error');
+    }
+  };
+
+  const handleSaveRetryPolicy = async () => {
+    try {
+      const settings: AppSettings = await window.electronAPI.saveSettings({
+        retryMaxAttempts: parseInt(retryMaxAttempts, 10),
+        retryBaseDelayMs: parseFloat(retryBaseDelay) * 1000,
+        retryMaxDelayMs: parseFloat(retryMaxDelay) * 1000,
+        cookieRenewalTimeoutMs: parseFloat(cookieRenewalTimeout) * 60000
+      });
+      setRetryMaxAttempts(String(settings.retryMaxAttempts));
+      setRetryBaseDelay(String(settings.retryBaseDelayMs / 1000));
+      setRetryMaxDelay(String(settings.retryMaxDelayMs / 1000));
+      setCookieRenewalTimeout(String(settings.cookieRenewalTimeoutMs / 60000));
+      showModal('Settings Saved', 'The retry policy was saved.', 'success');
+    } catch (e) {
+      showModal('Error', (e as Error).message, 'error');
+    }
+  };
+
+  const handleSaveRequestLimits = async (changes: Partial<AppSettings>) => {
+    try {
+      setAppSettings(await window.electronAPI.saveSettings(changes));
+      showModal(
+        'Settings Saved',
+        'The request limits were saved. Running jobs follow them from the next request.',
+        'success'
+      );
+    } catch (e) {
+      showModal('Error', (e as Error).message, 'error');
+    }
+  };
+
+  const handleRaiseCreditCap = () => {
+    const cap = parseInt(raisedCreditCap, 10);
+    if (Number.isNaN(cap) || cap < 1) {
+      showModal('Error', 'Please enter a valid credit cap.', 'error');
+      return;
+    }
+    window.electronAPI.raiseCreditCap(cap);
+    setCreditCap(String(cap));
+    setCreditCapMessage('');
+    setRaisedCreditCap('');
+    setIsPaused(false);
+  };
+
+  const handleRebuildExport = async () => {
+    try {
+      const rows: number | null = await window.electronAPI.rebuildExport(savePath, selectedTemplate);
+      if (rows !== null) {
+        showModal('Export Rebuilt', `${rows} rows were written from the archived responses.`, 'success');
+      }
+    } catch (e) {
+      showModal('Error', (e as Error).message, 'error');
+    }
+  };
+
+  const handleClearSeenRecords = async () => {
+    await window.electronAPI.clearSeenRecords(apiType);
+    setSeenCount(0);
+  };
+
+  const handleResetIncrementalCursor = async () => {
+    try {
+      await window.electronAPI.resetIncrementalCursor(apiType, JSON.parse(payloadText));
+      setIncrementalCursor(null);
+    } catch (e) {
+      showModal('Error', `Error: ${(e as Error).message}`, 'error');
+    }
+  };
+
+  // New cookies from the renewal dialog also replace the ones in the form
+  const handleRenewCookies = (text: string, cookies: BrowserCookie[]) => {
+    setCookiesText(text);
+    window.electronAPI.updateCookies(cookies);
+    setCookieRenewal(null);
+  };
+
+  const handleStopForRenewal = () => {
+    window.electronAPI.stopScraping();
+    setCookieRenewal(null);
+  };
+
+  // Fills the form from a request copied out of DevTools; the save path and counts stay as they are
+  const applyImportedJob = (job: ImportedJob) => {
+    setApiType(job.apiType);
+    setPayloadMode('json');
+    setPayloadText(JSON.stringify(job.payload, null, 2));
+    if (job.cookies.length > 0) {
+      setCookiesText(JSON.stringify(job.cookies, null, 2));
+    }
+    setImportOpen(false);
+    showModal(
+      'Job Imported',
+      `Imported a ${job.apiType} request to ${job.url}.${
+        job.apiType === 'Person Search' ? ' Choose Contact Search instead to fetch contact details.' : ''
+      }${job.cookies.length === 0 ? ' The request carried no cookies, so please paste them.' : ''}`,
+      'success'
+    );
+  };
+
+  const handleImportJob = async (text: string) => {
+    applyImportedJob(await window.electronAPI.importJob(text));
+  };
+
+  const handleImportJobFile = async () => {
+    const job: ImportedJob | null = await window.electronAPI.importJobFile();
+    if (job) {
+      applyImportedJob(job);
+    }
+  };
 
   const handleClearCookies = () => setCookiesText('');
-  const handleClearPayload = () => setPayloadText('');
+  const handleClearPayload = () => {
+    setPayloadText('');
+    setPayloadFilters({ values: {}, unsupported: [] });
+  };
+
+  // Switching to the builder reads the filters from the JSON, including edits made there
+  const handleShowFilters = async () => {
+    let payload: ApiRecord | null = null;
+    try {
+      payload = payloadText.trim() === '' ? null : JSON.parse(payloadText);
+    } catch (e) {
+      showModal(
+        'Invalid Payload',
+        `Please fix the JSON before switching to the filters: ${(e as Error).message}`,
+        'error'
+      );
+      return;
+    }
+    setPayloadFilters(await window.electronAPI.readPayloadFilters(apiType, payload));
+    if (payload === null) {
+      setPayloadText(JSON.stringify(await window.electronAPI.applyPayloadFilters(apiType, {}, null), null, 2));
+    }
+    setPayloadMode('filters');
+  };
+
+  const handleFilterChange = async (key: string, value: string) => {
+    const values: FilterValues = { ...payloadFilters.values, [key]: value };
+    setPayloadFilters({ ...payloadFilters, values });
+    const payload = await window.electronAPI.applyPayloadFilters(apiType, values, JSON.parse(payloadText || 'null'));
+    setPayloadText(JSON.stringify(payload, null, 2));
+  };
   
   return (
     <div className="min-h-screen w-full bg-gray-50 items-center p-6">
@@ -222,11 +929,74 @@ function App() {
       </h1>
 
       <div className="grid grid-cols-1 gap-6">
+        {/* Interrupted job from a previous session */}
+        {previousJob && !isScraping && (
+          <div className="rounded-lg border border-blue-200 bg-blue-50 p-4">
+            <div className="text-md font-medium mb-1">Previous job was interrupted</div>
+            <div className="text-gray-600 mb-3">
+              {previousJob.scrapeData.apiType}: {previousJob.resultsCollected} of {previousJob.scrapeData.totalResults}{' '}
+              rows written to {previousJob.scrapeData.savePath}
+              {previousJob.phase === 'enrich' &&
+                ` (enriching records, ${previousJob.enrichIndex || 0} of ${previousJob.enrichIds?.length || 0})`}
+              {previousJob.phase === 'search' && ` (collecting IDs, ${previousJob.enrichIds?.length || 0} found)`}
+              {Boolean(previousJob.skipped) && `, ${previousJob.skipped} already known records skipped`}. Last saved{' '}
+              {new Date(previousJob.updatedAt).toLocaleString()}.
+            </div>
+            <div className="flex items-center space-x-4">
+              <Button
+                onClick={handleResumePreviousJob}
+                color="green"
+                size="sm"
+                nonce=""
+                onResize={noop}
+                onResizeCapture={noop}
+              >
+                Resume Previous Job
+              </Button>
+              <Button
+                onClick={handleDiscardPreviousJob}
+                color="gray"
+                size="sm"
+                nonce=""
+                onResize={noop}
+                onResizeCapture={noop}
+              >
+                Discard
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Saved job configurations */}
+        <div>
+          <span className="block text-md font-medium mb-2">Presets</span>
+          <PresetLibrary
+            presets={presets}
+            onSave={handleSavePreset}
+            onLoad={handleLoadPreset}
+            onDuplicate={handleDuplicatePreset}
+            onDelete={handleDeletePreset}
+            onExport={handleExportPresets}
+            onImport={handleImportPresets}
+          />
+        </div>
+
         {/* API Selection */}
         <div>
-          <label className="block text-md font-medium mb-2">
-            Select API
-          </label>
+          <div className="flex items-center justify-between mb-2">
+            <span className="block text-md font-medium">Select API</span>
+            <Button
+              onClick={() => setImportOpen(true)}
+              size="sm"
+              variant="outlined"
+              color="blue"
+              nonce=""
+              onResize={noop}
+              onResizeCapture={noop}
+            >
+              Import from cURL / HAR
+            </Button>
+          </div>
           <Select
             value={apiType}
             onChange={(e) => setApiType(e || 'Company Search')}
@@ -236,48 +1006,159 @@ function App() {
             onResizeCapture={() => { }}
           >
             {apiOptions.map((option) => (
-              <Option key={option} value={option}>
-                {option}
+              <Option key={option.name} value={option.name}>
+                {option.name}
               </Option>
             ))}
           </Select>
         </div>
 
+        {/* Output columns: the API type's built-in set or a saved template */}
+        <div>
+          <span className="block text-md font-medium mb-2">Columns</span>
+          <div className="flex items-center space-x-4">
+            <Select
+              key={`${apiType}-${apiTemplates.length}`}
+              value={selectedTemplate ? selectedTemplate.id : 'default'}
+              onChange={(value) => setTemplateId(value && value !== 'default' ? value : '')}
+              className="w-full"
+              nonce=""
+              onResize={noop}
+              onResizeCapture={noop}
+            >
+              {[
+                <Option key="default" value="default">
+                  Built-in columns
+                </Option>,
+                ...apiTemplates.map((template) => (
+                  <Option key={template.id} value={template.id}>
+                    {template.name}
+                  </Option>
+                ))
+              ]}
+            </Select>
+            <Button
+              onClick={() => openTemplateEditor({ id: '', name: '', apiType, columns: [] })}
+              disabled={Boolean(editingTemplate)}
+              size="sm"
+              variant="outlined"
+              color="blue"
+              nonce=""
+              onResize={noop}
+              onResizeCapture={noop}
+            >
+              New
+            </Button>
+            <Button
+              onClick={() => selectedTemplate && openTemplateEditor(selectedTemplate)}
+              disabled={!selectedTemplate || Boolean(editingTemplate)}
+              size="sm"
+              variant="outlined"
+              color="blue"
+              nonce=""
+              onResize={noop}
+              onResizeCapture={noop}
+            >
+              Edit
+            </Button>
+          </div>
+          {editingTemplate && (
+            <div className="mt-4">
+              <ColumnTemplateEditor
+                key={editingTemplate.id || 'new'}
+                template={editingTemplate}
+                sourcePaths={sourcePaths}
+                onSave={handleSaveTemplate}
+                onDelete={handleDeleteTemplate}
+                onClose={() => setEditingTemplate(null)}
+              />
+            </div>
+          )}
+        </div>
+
         {/* Cookies Textarea with Clear Button */}
         <div>
           <div className="flex items-center justify-between mb-2">
-            <label className="block text-md font-medium">Paste Cookies (JSON Format)</label>
-            <Button onClick={handleClearCookies} size="sm" color="red">
-              Clear
-            </Button>
+            <span className="block text-md font-medium">Paste Cookies</span>
+            <div className="flex space-x-2">
+              <Button
+                onClick={handleTestSession}
+                disabled={testingSession}
+                size="sm"
+                color="blue"
+                nonce=""
+                onResize={noop}
+                onResizeCapture={noop}
+              >
+                {testingSession ? 'Testing…' : 'Test Session'}
+              </Button>
+              <Button onClick={handleClearCookies} size="sm" color="red">
+                Clear
+              </Button>
+            </div>
           </div>
           <Textarea
             value={cookiesText}
             onChange={(e) => setCookiesText(e.target.value)}
-            placeholder='e.g., [{"name": "userId", "value": "12345"}, ...]'
+            placeholder="Cookie JSON (EditThisCookie / Cookie-Editor), Netscape cookies.txt, a Cookie header or a HAR file"
             className="w-full"
             rows={6}
             nonce=""
             onResize={() => {}}
             onResizeCapture={() => {}}
           />
+          {cookieCheck && (
+            <div className={clsx('mt-1 text-sm', cookieCheck.error ? 'text-red-600' : 'text-gray-600')}>
+              {cookieCheck.formatName &&
+                `Detected ${cookieCheck.formatName} with ${cookieCheck.cookies.length} cookies. `}
+              {cookieCheck.expiresAt &&
+                `The session cookies expire ${new Date(cookieCheck.expiresAt).toLocaleString()}. `}
+              {cookieCheck.error}
+            </div>
+          )}
+          {sessionTest && (
+            <div className={clsx('mt-1 text-sm', sessionTest.ok ? 'text-green-700' : 'text-red-600')}>
+              {sessionTest.message}
+            </div>
+          )}
         </div>
 
-        {/* Payload Textarea with Clear Button */}
+        {/* Payload: built from filters or pasted as JSON */}
         <div>
           <div className="flex items-center justify-between mb-2">
-            <label className="block text-md font-medium">Paste Payload (JSON Format)</label>
-            <Button onClick={handleClearPayload} size="sm" color="red">
-              Clear
-            </Button>
+            <span className="block text-md font-medium">
+              {payloadMode === 'filters' ? 'Search Filters' : 'Paste Payload (JSON Format)'}
+            </span>
+            <div className="flex space-x-2">
+              {Boolean(apiInfo?.filterFields.length) && (
+                <Button
+                  onClick={payloadMode === 'filters' ? () => setPayloadMode('json') : handleShowFilters}
+                  size="sm"
+                  variant="outlined"
+                  color="blue"
+                  nonce=""
+                  onResize={noop}
+                  onResizeCapture={noop}
+                >
+                  {payloadMode === 'filters' ? 'Edit JSON' : 'Use Filter Builder'}
+                </Button>
+              )}
+              <Button onClick={handleClearPayload} size="sm" color="red">
+                Clear
+              </Button>
+            </div>
           </div>
-          <Textarea
-            value={payloadText}
-            onChange={(e) => setPayloadText(e.target.value)}
-            placeholder="Paste your JSON payload here..."
-            className="w-full focus:outline-none"
-            rows={6}
-          />
+          {payloadMode === 'filters' && apiInfo ? (
+            <FilterBuilder fields={apiInfo.filterFields} filters={payloadFilters} onChange={handleFilterChange} />
+          ) : (
+            <Textarea
+              value={payloadText}
+              onChange={(e) => setPayloadText(e.target.value)}
+              placeholder="Paste your JSON payload here..."
+              className="w-full focus:outline-none"
+              rows={6}
+            />
+          )}
         </div>
 
         {/* Number of Results */}
@@ -311,7 +1192,137 @@ function App() {
             onResizeCapture={() => { }}
           />
         </div>
+        {/* Records per enrichment request, e.g. people per viewContacts call */}
+        {apiInfo?.hasEnrichment && (
+          <div>
+            <span className="block text-md font-medium mb-2">Enrichment Batch Size</span>
+            <Input
+              type="number"
+              min="1"
+              max={apiInfo.maxBatchSize}
+              value={enrichBatchSize}
+              onChange={(e) => setEnrichBatchSize(e.target.value)}
+              placeholder={`Default ${apiInfo.defaultBatchSize}, at most ${apiInfo.maxBatchSize}`}
+              className="w-full"
+              nonce=""
+              onResize={noop}
+              onResizeCapture={noop}
+            />
+          </div>
+        )}
 
+        {/* Credits the job may spend before it pauses */}
+        {apiInfo?.hasEnrichment && (
+          <div>
+            <span className="block text-md font-medium mb-2">Job Credit Cap</span>
+            <Input
+              type="number"
+              min="1"
+              value={creditCap}
+              onChange={(e) => setCreditCap(e.target.value)}
+              placeholder="No cap"
+              className="w-full"
+              nonce=""
+              onResize={noop}
+              onResizeCapture={noop}
+            />
+          </div>
+        )}
+
+        {/* Records fetched by earlier runs */}
+        <div>
+          <span className="block text-md font-medium mb-2">Already Fetched Records</span>
+          <div className="flex items-center space-x-4">
+            <Select
+              value={dedupeMode}
+              onChange={(value) => setDedupeMode((value as DedupeMode) || 'off')}
+              className="w-full"
+              nonce=""
+              onResize={noop}
+              onResizeCapture={noop}
+            >
+              <Option value="off">Fetch them again</Option>
+              <Option value="skip">Skip them</Option>
+              <Option value="refresh">Re-fetch if older than N days</Option>
+            </Select>
+            {dedupeMode === 'refresh' && (
+              <Input
+                type="number"
+                min="1"
+                label="Days"
+                value={refreshAfterDays}
+                onChange={(e) => setRefreshAfterDays(e.target.value)}
+                nonce=""
+                onResize={noop}
+                onResizeCapture={noop}
+              />
+            )}
+          </div>
+          <div className="flex items-center space-x-4 mt-2 text-sm text-gray-600">
+            <span>
+              {seenCount} {apiType} records fetched by earlier runs
+            </span>
+            <Button
+              onClick={handleClearSeenRecords}
+              disabled={isScraping || seenCount === 0}
+              size="sm"
+              variant="text"
+              color="red"
+              nonce=""
+              onResize={noop}
+              onResizeCapture={noop}
+            >
+              Forget
+            </Button>
+          </div>
+        </div>
+
+        {/* Incremental runs stop paging at records captured before */}
+        {apiInfo?.supportsIncremental && (
+          <div>
+            <span className="block text-md font-medium mb-2">Incremental Run</span>
+            <div className="flex items-center space-x-4">
+              <Checkbox
+                checked={incremental}
+                onChange={(e) => setIncremental(e.target.checked)}
+                label="Only fetch records newer than the last run of this payload"
+                nonce=""
+                onResize={noop}
+                onResizeCapture={noop}
+              />
+              <div>
+                <Input
+                  type="date"
+                  label="Stop at records published before"
+                  value={stopBeforeDate}
+                  onChange={(e) => setStopBeforeDate(e.target.value)}
+                  nonce=""
+                  onResize={noop}
+                  onResizeCapture={noop}
+                />
+              </div>
+            </div>
+            <div className="flex items-center space-x-4 mt-2 text-sm text-gray-600">
+              <span>
+                {incrementalCursor
+                  ? `Newest captured: ${new Date(incrementalCursor.newestDate).toLocaleString()}`
+                  : 'No incremental run of this payload yet.'}
+              </span>
+              <Button
+                onClick={handleResetIncrementalCursor}
+                disabled={isScraping || !incrementalCursor}
+                size="sm"
+                variant="text"
+                color="red"
+                nonce=""
+                onResize={noop}
+                onResizeCapture={noop}
+              >
+                Forget
+              </Button>
+            </div>
+          </div>
+        )}
 
         {/* Save Location */}
         <div className="flex items-center space-x-4">
@@ -324,12 +1335,184 @@ function App() {
             onResize={() => { }}
             onResizeCapture={() => { }}
           >
-            Select Save Location for CSV
+            Select Save Location
           </Button>
           <div className="text-gray-600">
             {savePath ? `Save Location: ${savePath}` : 'No location selected'}
           </div>
         </div>
+        {outputFileInfo?.exists && (
+          <div>
+            {outputFileInfo.canAppend && outputFileInfo.format !== 'sqlite' && (
+              <Checkbox
+                checked={appendToExisting}
+                onChange={(e) => setAppendToExisting(e.target.checked)}
+                label="Append to the existing file instead of replacing it"
+                nonce=""
+                onResize={noop}
+                onResizeCapture={noop}
+              />
+            )}
+            <div className={clsx('text-sm', outputFileInfo.canAppend ? 'text-gray-600' : 'text-red-600')}>
+              {outputFileInfo.message}
+              {!outputFileInfo.canAppend && ' Starting a job will replace the file.'}
+            </div>
+          </div>
+        )}
+        <div className="flex items-center space-x-4">
+          <Checkbox
+            checked={archiveResponses}
+            onChange={(e) => setArchiveResponses(e.target.checked)}
+            label="Keep the raw API responses next to the output"
+            nonce=""
+            onResize={noop}
+            onResizeCapture={noop}
+          />
+          {outputFileInfo?.hasArchive && (
+            <Button
+              onClick={handleRebuildExport}
+              disabled={isScraping}
+              size="sm"
+              variant="outlined"
+              color="blue"
+              nonce=""
+              onResize={noop}
+              onResizeCapture={noop}
+            >
+              Rebuild Export
+            </Button>
+          )}
+        </div>
+
+        {/* Base URL, e.g. a local mock server for offline runs */}
+        <div>
+          <span className="block text-md font-medium mb-2">ZoomInfo Base URL</span>
+          <div className="flex items-center space-x-4">
+            <Input
+              value={baseUrl}
+              onChange={(e) => setBaseUrl(e.target.value)}
+              disabled={isScraping}
+              className="w-full"
+              nonce=""
+              onResize={noop}
+              onResizeCapture={noop}
+            />
+            <Button
+              onClick={handleSaveBaseUrl}
+              disabled={isScraping || baseUrl.trim() === ''}
+              size="sm"
+              color="blue"
+              nonce=""
+              onResize={noop}
+              onResizeCapture={noop}
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+
+        {/* Delay between requests, request budgets and run windows */}
+        {appSettings && (
+          <div>
+            <span className="block text-md font-medium mb-2">Request Limits</span>
+            <RequestLimitsSettings settings={appSettings} onSave={handleSaveRequestLimits} />
+          </div>
+        )}
+
+        {/* Retries of timeouts, 429 and 5xx responses, and how long an expired session is waited on */}
+        <div>
+          <span className="block text-md font-medium mb-2">Retries</span>
+          <div className="flex items-center space-x-4">
+            <Input
+              type="number"
+              min="1"
+              label="Attempts per request"
+              value={retryMaxAttempts}
+              onChange={(e) => setRetryMaxAttempts(e.target.value)}
+              nonce=""
+              onResize={noop}
+              onResizeCapture={noop}
+            />
+            <Input
+              type="number"
+              min="0"
+              label="First retry after (s)"
+              value={retryBaseDelay}
+              onChange={(e) => setRetryBaseDelay(e.target.value)}
+              nonce=""
+              onResize={noop}
+              onResizeCapture={noop}
+            />
+            <Input
+              type="number"
+              min="0"
+              label="Longest wait (s)"
+              value={retryMaxDelay}
+              onChange={(e) => setRetryMaxDelay(e.target.value)}
+              nonce=""
+              onResize={noop}
+              onResizeCapture={noop}
+            />
+            <Input
+              type="number"
+              min="1"
+              label="Wait for new cookies (min)"
+              value={cookieRenewalTimeout}
+              onChange={(e) => setCookieRenewalTimeout(e.target.value)}
+              nonce=""
+              onResize={noop}
+              onResizeCapture={noop}
+            />
+            <Button
+              onClick={handleSaveRetryPolicy}
+              size="sm"
+              color="blue"
+              nonce=""
+              onResize={noop}
+              onResizeCapture={noop}
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+
+        {/* Credit limits and the local usage ledger */}
+        <div>
+          <span className="block text-md font-medium mb-2">Credits</span>
+          <div className="flex items-center space-x-4 mb-4">
+            <Input
+              type="number"
+              min="0"
+              label="Monthly cap (0 = none)"
+              value={monthlyCreditCap}
+              onChange={(e) => setMonthlyCreditCap(e.target.value)}
+              nonce=""
+              onResize={noop}
+              onResizeCapture={noop}
+            />
+            <Input
+              type="number"
+              min="0"
+              label="Confirm jobs above (0 = never)"
+              value={creditConfirmThreshold}
+              onChange={(e) => setCreditConfirmThreshold(e.target.value)}
+              nonce=""
+              onResize={noop}
+              onResizeCapture={noop}
+            />
+            <Button
+              onClick={handleSaveCreditLimits}
+              size="sm"
+              color="blue"
+              nonce=""
+              onResize={noop}
+              onResizeCapture={noop}
+            >
+              Save
+            </Button>
+          </div>
+          <CreditUsage ledger={creditLedger} monthlyCap={parseInt(monthlyCreditCap, 10) || 0} />
+        </div>
 
         {/* Progress Bar */}
         {isScraping && (
@@ -347,9 +1530,106 @@ function App() {
             <div className="text-center mt-2 text-gray-600">
               {progress.toFixed(2)}% completed
             </div>
+            {progressDetails && (
+              <ProgressDetails
+                update={progressDetails}
+                hasEnrichment={apiOptions.some(
+                  (option) => option.name === progressDetails.apiType && option.hasEnrichment
+                )}
+              />
+            )}
+          </div>
+        )}
+
+        {/* Job paused at a credit cap */}
+        {isScraping && creditCapMessage && (
+          <div className="rounded-lg border border-yellow-300 bg-yellow-50 p-4">
+            <div className="mb-3 text-gray-700">
+              {creditCapMessage} Raise the job&apos;s cap, raise the monthly cap below and resume, or stop the job.
+            </div>
+            <div className="flex items-center space-x-4">
+              <Input
+                type="number"
+                min="1"
+                label="New job credit cap"
+                value={raisedCreditCap}
+                onChange={(e) => setRaisedCreditCap(e.target.value)}
+                nonce=""
+                onResize={noop}
+                onResizeCapture={noop}
+              />
+              <Button
+                onClick={handleRaiseCreditCap}
+                size="sm"
+                color="green"
+                nonce=""
+                onResize={noop}
+                onResizeCapture={noop}
+              >
+                Raise Cap and Resume
+              </Button>
+            </div>
           </div>
         )}
 
+        {/* Run log of the jobs in this session */}
+        <div>
+          <span className="block text-md font-medium mb-2">Activity</span>
+          <ActivityPanel entries={logEntries} />
+        </div>
+
+        {/* Job Queue */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <span className="block text-md font-medium">Job Queue</span>
+            <div className="flex items-center space-x-2">
+              <Button
+                onClick={handleAddToQueue}
+                disabled={!canStart}
+                size="sm"
+                color="blue"
+                nonce=""
+                onResize={noop}
+                onResizeCapture={noop}
+              >
+                Add to Queue
+              </Button>
+              <Button
+                onClick={handleStartQueue}
+                disabled={isScraping || !hasPendingJobs}
+                size="sm"
+                color="green"
+                nonce=""
+                onResize={noop}
+                onResizeCapture={noop}
+              >
+                Start Queue
+              </Button>
+            </div>
+          </div>
+          <JobQueue
+            jobs={queue}
+            onMove={(jobId, direction) => window.electronAPI.moveJob(jobId, direction)}
+            onCancel={(jobId) => window.electronAPI.cancelJob(jobId)}
+            onRetry={(jobId) => window.electronAPI.retryJob(jobId)}
+            onRetryFailures={(jobId) => window.electronAPI.retryFailures(jobId)}
+            onRemove={(jobId) => window.electronAPI.removeJob(jobId)}
+          />
+        </div>
+
+        {/* Recurring jobs, each run also writing the records that are new since the last one */}
+        <div>
+          <span className="block text-md font-medium mb-2">Schedules</span>
+          <ScheduleList
+            schedules={schedules}
+            canCreate={canStart}
+            onCreate={handleCreateSchedule}
+            onToggle={handleToggleSchedule}
+            onRunNow={(scheduleId) => window.electronAPI.runScheduleNow(scheduleId)}
+            onDelete={handleDeleteSchedule}
+          />
+        </div>
+
         {/* Action Buttons */}
         <div className="flex items-center justify-center space-x-4 mt-6">
           <Button
@@ -392,7 +1672,7 @@ function App() {
             onResize={() => { }}
             onResizeCapture={() => { }}
           >
-            Open CSV File
+            Open Output File
           </Button>
         </div>
       </div>
@@ -414,17 +1694,44 @@ function App() {
         <Dialog.Header>{modalTitle}</Dialog.Header>
         <Dialog.Body divider>{modalMessage}</Dialog.Body>
         <Dialog.Footer>
+          {confirmAction && (
+            <Button
+              variant="text"
+              color="blue-gray"
+              onClick={closeModal}
+              className="mr-2"
+              nonce=""
+              onResize={noop}
+              onResizeCapture={noop}
+            >
+              Cancel
+            </Button>
+          )}
           <Button
             color="blue"
-            onClick={closeModal}
+            onClick={confirmAction ? handleConfirm : closeModal}
             nonce=""
             onResize={() => { }}
             onResizeCapture={() => { }}
           >
-            OK
+            {confirmAction ? 'Continue' : 'OK'}
           </Button>
         </Dialog.Footer>
       </Dialog>
+
+      <ImportJobDialog
+        open={importOpen}
+        onImport={handleImportJob}
+        onOpenFile={handleImportJobFile}
+        onClose={() => setImportOpen(false)}
+      />
+
+      <CookieRenewalDialog
+        request={cookieRenewal}
+        inspectCookies={window.electronAPI.inspectCookies}
+        onRenew={handleRenewCookies}
+        onStop={handleStopForRenewal}
+      />
     </div>
   );
 }
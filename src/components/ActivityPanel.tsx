@@ -0,0 +1,101 @@
+// src/components/ActivityPanel.tsx
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Input, Option, Select } from '@material-tailwind/react';
+import { clsx } from 'clsx';
+import { LogCategory, LogEntry, LogLevel } from '../../electron/preload';
+import noop from '../noop';
+
+type ActivityPanelProps = {
+  entries: LogEntry[];
+};
+
+const levelOrder: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+const levelClasses: Record<LogLevel, string> = {
+  debug: 'text-gray-500',
+  info: 'text-gray-700',
+  warn: 'text-yellow-800',
+  error: 'text-red-600'
+};
+
+const categories: LogCategory[] = ['job', 'request', 'response', 'retry', 'cookies', 'pause', 'skip'];
+
+function ActivityPanel({ entries }: ActivityPanelProps) {
+  const [minLevel, setMinLevel] = useState<LogLevel>('info');
+  const [category, setCategory] = useState<LogCategory | 'all'>('all');
+  const [search, setSearch] = useState<string>('');
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const query = search.trim().toLowerCase();
+  const visible = entries.filter(
+    (entry) =>
+      levelOrder.indexOf(entry.level) >= levelOrder.indexOf(minLevel) &&
+      (category === 'all' || entry.category === category) &&
+      (!query || entry.message.toLowerCase().includes(query))
+  );
+
+  // Keep the newest entry in view
+  useEffect(() => {
+    if (listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [visible.length]);
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-4">
+      <div className="mb-3 flex items-center space-x-4">
+        <Select
+          label="Level"
+          value={minLevel}
+          onChange={(value) => setMinLevel((value as LogLevel) || 'info')}
+          nonce=""
+          onResize={noop}
+          onResizeCapture={noop}
+        >
+          <Option value="debug">Everything</Option>
+          <Option value="info">Info and above</Option>
+          <Option value="warn">Warnings and errors</Option>
+          <Option value="error">Errors only</Option>
+        </Select>
+        <Select
+          label="Category"
+          value={category}
+          onChange={(value) => setCategory((value as LogCategory | 'all') || 'all')}
+          nonce=""
+          onResize={noop}
+          onResizeCapture={noop}
+        >
+          {[
+            <Option key="all" value="all">
+              All categories
+            </Option>,
+            ...categories.map((name) => (
+              <Option key={name} value={name}>
+                {name}
+              </Option>
+            ))
+          ]}
+        </Select>
+        <Input
+          label="Search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          nonce=""
+          onResize={noop}
+          onResizeCapture={noop}
+        />
+      </div>
+      <div ref={listRef} className="h-64 overflow-y-auto font-mono text-xs">
+        {visible.length === 0 && <div className="text-gray-600">No activity yet.</div>}
+        {visible.map((entry) => (
+          <div key={entry.id} className={clsx('whitespace-pre-wrap', levelClasses[entry.level])}>
+            {new Date(entry.timestamp).toLocaleTimeString()} [{entry.category}] {entry.message}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default ActivityPanel;
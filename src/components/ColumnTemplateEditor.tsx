@@ -0,0 +1,215 @@
+// src/components/ColumnTemplateEditor.tsx
+
+import React, { useState } from 'react';
+import { Button, Input } from '@material-tailwind/react';
+import { ColumnTemplate, TemplateColumn } from '../../electron/preload';
+import noop from '../noop';
+
+type ColumnTemplateEditorProps = {
+  template: ColumnTemplate;
+  // Fields seen in raw results of this API type, offered as source paths
+  sourcePaths: string[];
+  onSave: (template: ColumnTemplate) => void;
+  onDelete: (templateId: string) => void;
+  onClose: () => void;
+};
+
+// Columns being edited carry a key for React, which is left out of the saved template
+type EditedColumn = TemplateColumn & { key: string };
+
+let columnKeys = 0;
+
+function withKey({ header, path }: TemplateColumn): EditedColumn {
+  columnKeys += 1;
+  return { header, path, key: `column-${columnKeys}` };
+}
+
+// "employmentHistory.*.companyWebsite" becomes "Employment History Company Website"
+function headerFromPath(path: string): string {
+  return path
+    .split('.')
+    .filter((segment) => segment !== '*')
+    .map((segment) => segment.replace(/([a-z])([A-Z])/g, '$1 $2'))
+    .map((segment) => segment.charAt(0).toUpperCase() + segment.slice(1))
+    .join(' ');
+}
+
+function ColumnTemplateEditor({ template, sourcePaths, onSave, onDelete, onClose }: ColumnTemplateEditorProps) {
+  const [name, setName] = useState<string>(template.name);
+  const [columns, setColumns] = useState<EditedColumn[]>(() => template.columns.map(withKey));
+
+  const unusedPaths = sourcePaths.filter((path) => !columns.some((column) => column.path === path));
+
+  const updateColumn = (index: number, changes: Partial<TemplateColumn>) => {
+    setColumns(columns.map((column, current) => (current === index ? { ...column, ...changes } : column)));
+  };
+
+  const moveColumn = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= columns.length) return;
+    const reordered = [...columns];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setColumns(reordered);
+  };
+
+  const removeColumn = (index: number) => {
+    setColumns(columns.filter((_column, current) => current !== index));
+  };
+
+  const addColumn = () => setColumns([...columns, withKey({ header: '', path: '' })]);
+
+  const addAllFields = () => {
+    setColumns([...columns, ...unusedPaths.map((path) => withKey({ header: headerFromPath(path), path }))]);
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-4">
+      <div className="mb-3 flex items-center space-x-4">
+        <Input
+          label={`${template.apiType} template name`}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          nonce=""
+          onResize={noop}
+          onResizeCapture={noop}
+        />
+      </div>
+
+      <datalist id="column-template-paths">
+        {sourcePaths.map((path) => (
+          <option key={path} value={path} aria-label={path} />
+        ))}
+      </datalist>
+
+      {columns.length === 0 && (
+        <div className="mb-3 text-sm text-gray-600">
+          No columns yet. Add columns one by one or start from every field of the latest result.
+        </div>
+      )}
+      {columns.map((column, index) => (
+        <div key={column.key} className="mb-2 flex items-center space-x-2">
+          <Input
+            label="Column"
+            value={column.header}
+            onChange={(e) => updateColumn(index, { header: e.target.value })}
+            nonce=""
+            onResize={noop}
+            onResizeCapture={noop}
+          />
+          <Input
+            label="Source path"
+            list="column-template-paths"
+            value={column.path}
+            onChange={(e) =>
+              updateColumn(index, {
+                path: e.target.value,
+                header: column.header || headerFromPath(e.target.value)
+              })
+            }
+            nonce=""
+            onResize={noop}
+            onResizeCapture={noop}
+          />
+          <Button
+            onClick={() => moveColumn(index, -1)}
+            disabled={index === 0}
+            size="sm"
+            variant="outlined"
+            color="blue-gray"
+            nonce=""
+            onResize={noop}
+            onResizeCapture={noop}
+          >
+            Up
+          </Button>
+          <Button
+            onClick={() => moveColumn(index, 1)}
+            disabled={index === columns.length - 1}
+            size="sm"
+            variant="outlined"
+            color="blue-gray"
+            nonce=""
+            onResize={noop}
+            onResizeCapture={noop}
+          >
+            Down
+          </Button>
+          <Button
+            onClick={() => removeColumn(index)}
+            size="sm"
+            variant="text"
+            color="red"
+            nonce=""
+            onResize={noop}
+            onResizeCapture={noop}
+          >
+            Remove
+          </Button>
+        </div>
+      ))}
+
+      <div className="mt-3 flex items-center space-x-2">
+        <Button
+          onClick={addColumn}
+          size="sm"
+          variant="outlined"
+          color="blue"
+          nonce=""
+          onResize={noop}
+          onResizeCapture={noop}
+        >
+          Add Column
+        </Button>
+        <Button
+          onClick={addAllFields}
+          disabled={unusedPaths.length === 0}
+          size="sm"
+          variant="outlined"
+          color="blue"
+          nonce=""
+          onResize={noop}
+          onResizeCapture={noop}
+        >
+          Add All Fields
+        </Button>
+        <div className="flex-grow" />
+        {template.id && (
+          <Button
+            onClick={() => onDelete(template.id)}
+            size="sm"
+            variant="text"
+            color="red"
+            nonce=""
+            onResize={noop}
+            onResizeCapture={noop}
+          >
+            Delete Template
+          </Button>
+        )}
+        <Button
+          onClick={onClose}
+          size="sm"
+          variant="text"
+          color="blue-gray"
+          nonce=""
+          onResize={noop}
+          onResizeCapture={noop}
+        >
+          Close
+        </Button>
+        <Button
+          onClick={() => onSave({ ...template, name, columns: columns.map(({ header, path }) => ({ header, path })) })}
+          size="sm"
+          color="green"
+          nonce=""
+          onResize={noop}
+          onResizeCapture={noop}
+        >
+          Save Template
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default ColumnTemplateEditor;
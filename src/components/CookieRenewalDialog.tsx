@@ -0,0 +1,120 @@
+// src/components/CookieRenewalDialog.tsx
+
+import React, { useEffect, useState } from 'react';
+import { Button, Dialog, DialogBody, DialogFooter, DialogHeader, Textarea } from '@material-tailwind/react';
+import { clsx } from 'clsx';
+import { BrowserCookie, CookieParseResult, CookieRenewalRequest } from '../../electron/preload';
+import { formatDuration } from './ProgressDetails';
+import noop from '../noop';
+
+type CookieRenewalDialogProps = {
+  // The blocked request; the dialog is closed while there is none
+  request: CookieRenewalRequest | null;
+  // Detects the format and the missing session cookies, as for the cookie input of the form
+  inspectCookies: (text: string) => Promise<CookieParseResult>;
+  onRenew: (text: string, cookies: BrowserCookie[]) => void;
+  onStop: () => void;
+};
+
+function secondsUntil(deadline: string): number {
+  return Math.max(Math.ceil((Date.parse(deadline) - Date.now()) / 1000), 0);
+}
+
+function CookieRenewalDialog({ request, inspectCookies, onRenew, onStop }: CookieRenewalDialogProps) {
+  const [text, setText] = useState<string>('');
+  const [check, setCheck] = useState<CookieParseResult | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState<number>(0);
+
+  // Every renewal starts with an empty input
+  useEffect(() => {
+    setText('');
+    setCheck(null);
+  }, [request]);
+
+  useEffect(() => {
+    if (!request) return undefined;
+    setSecondsLeft(secondsUntil(request.deadline));
+    const interval = setInterval(() => setSecondsLeft(secondsUntil(request.deadline)), 1000);
+    return () => clearInterval(interval);
+  }, [request]);
+
+  useEffect(() => {
+    if (text.trim() === '') {
+      setCheck(null);
+      return;
+    }
+    inspectCookies(text).then(setCheck);
+  }, [text, inspectCookies]);
+
+  const canRenew = check !== null && !check.error;
+
+  return (
+    <Dialog
+      open={request !== null}
+      handler={noop}
+      size="md"
+      className="p-6"
+      nonce=""
+      onResize={noop}
+      onResizeCapture={noop}
+    >
+      <DialogHeader nonce="" onResize={noop} onResizeCapture={noop}>
+        Session Expired
+      </DialogHeader>
+      <DialogBody divider nonce="" onResize={noop} onResizeCapture={noop}>
+        {request && (
+          <div className="space-y-3">
+            <div>
+              <span className="font-mono text-sm">{request.request}</span> was refused with {request.status}. The job is
+              paused until new cookies are pasted below.
+            </div>
+            <div className="text-sm text-gray-600">
+              The job stops with a checkpoint in <span className="font-medium">{formatDuration(secondsLeft)}</span> if
+              no new cookies arrive.
+            </div>
+            <Textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder="Cookie JSON, Netscape cookies.txt, a Cookie header or a HAR file"
+              rows={6}
+              nonce=""
+              onResize={noop}
+              onResizeCapture={noop}
+            />
+            {check && (
+              <div className={clsx('text-sm', check.error ? 'text-red-600' : 'text-gray-600')}>
+                {check.formatName && `Detected ${check.formatName} with ${check.cookies.length} cookies. `}
+                {check.error}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogBody>
+      <DialogFooter nonce="" onResize={noop} onResizeCapture={noop}>
+        <Button
+          variant="text"
+          color="red"
+          onClick={onStop}
+          className="mr-2"
+          nonce=""
+          onResize={noop}
+          onResizeCapture={noop}
+        >
+          Stop Job
+        </Button>
+        <Button
+          color="blue"
+          disabled={!canRenew}
+          onClick={() => check && onRenew(text, check.cookies)}
+          nonce=""
+          onResize={noop}
+          onResizeCapture={noop}
+        >
+          Resume with New Cookies
+        </Button>
+      </DialogFooter>
+    </Dialog>
+  );
+}
+
+export default CookieRenewalDialog;
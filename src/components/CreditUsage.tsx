@@ -0,0 +1,62 @@
+// src/components/CreditUsage.tsx
+
+import React from 'react';
+import { CreditLedger } from '../../electron/preload';
+
+type CreditUsageProps = {
+  ledger: CreditLedger;
+  monthlyCap: number;
+};
+
+function fileName(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() || filePath;
+}
+
+// Ledger days are local dates, e.g. "2024-06-30"
+function currentMonth(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+}
+
+function CreditUsage({ ledger, monthlyCap }: CreditUsageProps) {
+  const days = Object.keys(ledger.days).sort().reverse();
+  const month = currentMonth();
+  const monthSpent = days.filter((day) => day.startsWith(month)).reduce((total, day) => total + ledger.days[day], 0);
+  const jobs = Object.entries(ledger.jobs).sort(([, a], [, b]) => b.lastSpentAt.localeCompare(a.lastSpentAt));
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-4">
+      <div className="mb-3 text-gray-700">
+        {monthSpent} credits spent this month{monthlyCap > 0 ? ` of ${monthlyCap} allowed` : ''}.
+      </div>
+      {days.length === 0 ? (
+        <div className="text-gray-600">No credits spent yet.</div>
+      ) : (
+        <div className="grid grid-cols-2 gap-6 text-sm">
+          <div>
+            <div className="mb-1 font-medium">Per day</div>
+            {days.slice(0, 14).map((day) => (
+              <div key={day} className="flex justify-between text-gray-600">
+                <span>{day}</span>
+                <span>{ledger.days[day]}</span>
+              </div>
+            ))}
+          </div>
+          <div>
+            <div className="mb-1 font-medium">Per job</div>
+            {jobs.slice(0, 14).map(([jobId, job]) => (
+              <div key={jobId} className="flex justify-between text-gray-600" title={job.savePath}>
+                <span className="truncate">
+                  {job.apiType} → {fileName(job.savePath)}
+                </span>
+                <span>{job.credits}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default CreditUsage;
@@ -0,0 +1,94 @@
+// src/components/FilterBuilder.tsx
+
+import React from 'react';
+import { Button, Input } from '@material-tailwind/react';
+import { FilterField, PayloadFilters } from '../../electron/preload';
+import { fieldKeys, splitList } from '../../electron/filterFields';
+import noop from '../noop';
+
+type FilterBuilderProps = {
+  fields: FilterField[];
+  filters: PayloadFilters;
+  onChange: (key: string, value: string) => void;
+};
+
+function FilterBuilder({ fields, filters, onChange }: FilterBuilderProps) {
+  const { values, unsupported } = filters;
+
+  const toggleOption = (key: string, option: string) => {
+    const chosen = splitList(values[key] || '');
+    onChange(
+      key,
+      (chosen.includes(option) ? chosen.filter((other) => other !== option) : [...chosen, option]).join(',')
+    );
+  };
+
+  const renderField = (field: FilterField) => {
+    if (field.kind === 'range') {
+      return ['Min', 'Max'].map((bound) => {
+        const key = `${field.key}${bound}`;
+        return (
+          <Input
+            key={key}
+            type="number"
+            min="0"
+            label={`${field.label} ${bound.toLowerCase()}`}
+            value={values[key] || ''}
+            onChange={(e) => onChange(key, e.target.value)}
+            disabled={unsupported.includes(key)}
+            nonce=""
+            onResize={noop}
+            onResizeCapture={noop}
+          />
+        );
+      });
+    }
+    if (field.kind === 'options') {
+      const chosen = splitList(values[field.key] || '');
+      return (field.options || []).map((option) => (
+        <Button
+          key={option.value}
+          onClick={() => toggleOption(field.key, option.value)}
+          disabled={unsupported.includes(field.key)}
+          size="sm"
+          variant={chosen.includes(option.value) ? 'filled' : 'outlined'}
+          color="blue-gray"
+          className="px-2"
+          nonce=""
+          onResize={noop}
+          onResizeCapture={noop}
+        >
+          {option.label}
+        </Button>
+      ));
+    }
+    return (
+      <Input
+        label={field.label}
+        value={values[field.key] || ''}
+        onChange={(e) => onChange(field.key, e.target.value)}
+        placeholder={field.placeholder}
+        disabled={unsupported.includes(field.key)}
+        nonce=""
+        onResize={noop}
+        onResizeCapture={noop}
+      />
+    );
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-gray-200 bg-white p-3">
+      {fields.map((field) => (
+        <div key={field.key}>
+          {field.kind === 'options' && <div className="mb-1 text-sm font-medium">{field.label}</div>}
+          <div className="flex flex-wrap items-center gap-2">{renderField(field)}</div>
+          {fieldKeys(field).some((key) => unsupported.includes(key)) && (
+            <div className="mt-1 text-sm text-gray-600">Set in the JSON in a form the builder cannot show.</div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default FilterBuilder;
@@ -0,0 +1,103 @@
+// src/components/ImportJobDialog.tsx
+
+import React, { useEffect, useState } from 'react';
+import { Button, Dialog, DialogBody, DialogFooter, DialogHeader, Textarea } from '@material-tailwind/react';
+import noop from '../noop';
+
+type ImportJobDialogProps = {
+  open: boolean;
+  // Both reject with a message the dialog shows when the request cannot be imported
+  onImport: (text: string) => Promise<void>;
+  onOpenFile: () => Promise<void>;
+  onClose: () => void;
+};
+
+// Electron prefixes errors thrown by a main process handler with the channel name
+function errorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.replace(/^Error invoking remote method '[^']+': (Error: )?/, '');
+}
+
+function ImportJobDialog({ open, onImport, onOpenFile, onClose }: ImportJobDialogProps) {
+  const [text, setText] = useState<string>('');
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    if (open) {
+      setText('');
+      setError('');
+    }
+  }, [open]);
+
+  const run = async (action: () => Promise<void>) => {
+    setError('');
+    try {
+      await action();
+    } catch (e) {
+      setError(errorMessage(e));
+    }
+  };
+
+  return (
+    <Dialog open={open} handler={onClose} size="md" className="p-6" nonce="" onResize={noop} onResizeCapture={noop}>
+      <DialogHeader nonce="" onResize={noop} onResizeCapture={noop}>
+        Import Job from cURL or HAR
+      </DialogHeader>
+      <DialogBody divider nonce="" onResize={noop} onResizeCapture={noop}>
+        <div className="space-y-3">
+          <div className="text-sm text-gray-600">
+            In the browser&apos;s DevTools, right-click a companySearch, personSearch or scoopsAdvancedSearch request in
+            the Network tab and choose &quot;Copy as cURL&quot;, or save the requests as a HAR file. The API type,
+            payload and cookies are filled in from it.
+          </div>
+          <Textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="curl 'https://app.zoominfo.com/profiles/graphql/companySearch' ..."
+            rows={8}
+            nonce=""
+            onResize={noop}
+            onResizeCapture={noop}
+          />
+          {error && <div className="text-sm text-red-600">{error}</div>}
+        </div>
+      </DialogBody>
+      <DialogFooter nonce="" onResize={noop} onResizeCapture={noop}>
+        <Button
+          variant="text"
+          color="blue-gray"
+          onClick={onClose}
+          className="mr-2"
+          nonce=""
+          onResize={noop}
+          onResizeCapture={noop}
+        >
+          Cancel
+        </Button>
+        <Button
+          variant="outlined"
+          color="blue"
+          onClick={() => run(onOpenFile)}
+          className="mr-2"
+          nonce=""
+          onResize={noop}
+          onResizeCapture={noop}
+        >
+          Open HAR File…
+        </Button>
+        <Button
+          color="blue"
+          disabled={text.trim() === ''}
+          onClick={() => run(() => onImport(text))}
+          nonce=""
+          onResize={noop}
+          onResizeCapture={noop}
+        >
+          Import
+        </Button>
+      </DialogFooter>
+    </Dialog>
+  );
+}
+
+export default ImportJobDialog;
@@ -0,0 +1,146 @@
+// src/components/JobQueue.tsx
+
+import React from 'react';
+import { Button } from '@material-tailwind/react';
+import { clsx } from 'clsx';
+import { JobStatus, QueuedJob } from '../../electron/preload';
+import noop from '../noop';
+
+type JobQueueProps = {
+  jobs: QueuedJob[];
+  onMove: (jobId: string, direction: -1 | 1) => void;
+  onCancel: (jobId: string) => void;
+  onRetry: (jobId: string) => void;
+  onRetryFailures: (jobId: string) => void;
+  onRemove: (jobId: string) => void;
+};
+
+const statusClasses: Record<JobStatus, string> = {
+  pending: 'bg-gray-200 text-gray-700',
+  running: 'bg-blue-100 text-blue-700',
+  completed: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  cancelled: 'bg-gray-100 text-gray-500',
+  stopped: 'bg-yellow-100 text-yellow-800'
+};
+
+function fileName(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() || filePath;
+}
+
+function JobQueue({ jobs, onMove, onCancel, onRetry, onRetryFailures, onRemove }: JobQueueProps) {
+  if (jobs.length === 0) {
+    return <div className="text-gray-600">No jobs in the queue.</div>;
+  }
+
+  return (
+    <div className="divide-y divide-gray-200 rounded-lg border border-gray-200 bg-white">
+      {jobs.map((job, index) => {
+        const { apiType, totalResults, savePath } = job.scrapeData;
+        const canCancel = job.status === 'pending' || job.status === 'running';
+        const canRetry = ['failed', 'cancelled', 'stopped'].includes(job.status);
+        // Failed and stopped jobs resume from their checkpoint with Retry instead
+        const canRetryFailures = ['completed', 'cancelled'].includes(job.status) && Boolean(job.failures);
+        const canRemove = job.status !== 'running';
+
+        return (
+          <div key={job.id} className="flex items-center justify-between p-3">
+            <div className="min-w-0">
+              <div className="flex items-center space-x-2">
+                <span className="font-medium">
+                  {index + 1}. {apiType}
+                </span>
+                <span className={clsx('rounded px-2 py-0.5 text-xs uppercase', statusClasses[job.status])}>
+                  {job.status}
+                </span>
+              </div>
+              <div className="truncate text-sm text-gray-600" title={savePath}>
+                {job.resultsCollected} of {totalResults} rows → {fileName(savePath)}
+                {Boolean(job.skipped) && ` · ${job.skipped} already known skipped`}
+                {Boolean(job.failures) && ` · ${job.failures} failed`}
+              </div>
+              {job.error && <div className="text-sm text-red-600">{job.error}</div>}
+            </div>
+            <div className="flex shrink-0 items-center space-x-2">
+              <Button
+                onClick={() => onMove(job.id, -1)}
+                disabled={index === 0}
+                size="sm"
+                variant="outlined"
+                color="blue-gray"
+                nonce=""
+                onResize={noop}
+                onResizeCapture={noop}
+              >
+                Up
+              </Button>
+              <Button
+                onClick={() => onMove(job.id, 1)}
+                disabled={index === jobs.length - 1}
+                size="sm"
+                variant="outlined"
+                color="blue-gray"
+                nonce=""
+                onResize={noop}
+                onResizeCapture={noop}
+              >
+                Down
+              </Button>
+              {canCancel && (
+                <Button
+                  onClick={() => onCancel(job.id)}
+                  size="sm"
+                  color="red"
+                  nonce=""
+                  onResize={noop}
+                  onResizeCapture={noop}
+                >
+                  Cancel
+                </Button>
+              )}
+              {canRetry && (
+                <Button
+                  onClick={() => onRetry(job.id)}
+                  size="sm"
+                  color="green"
+                  nonce=""
+                  onResize={noop}
+                  onResizeCapture={noop}
+                >
+                  Retry
+                </Button>
+              )}
+              {canRetryFailures && (
+                <Button
+                  onClick={() => onRetryFailures(job.id)}
+                  size="sm"
+                  variant="outlined"
+                  color="green"
+                  nonce=""
+                  onResize={noop}
+                  onResizeCapture={noop}
+                >
+                  Retry failed
+                </Button>
+              )}
+              {canRemove && (
+                <Button
+                  onClick={() => onRemove(job.id)}
+                  size="sm"
+                  color="gray"
+                  nonce=""
+                  onResize={noop}
+                  onResizeCapture={noop}
+                >
+                  Remove
+                </Button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default JobQueue;
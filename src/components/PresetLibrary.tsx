@@ -0,0 +1,209 @@
+// src/components/PresetLibrary.tsx
+
+import React, { useState } from 'react';
+import { Button, Checkbox, Input } from '@material-tailwind/react';
+import { JobPreset } from '../../electron/preload';
+import noop from '../noop';
+
+export type PresetDetails = {
+  name: string;
+  tags: string[];
+  includeCookies: boolean;
+};
+
+type PresetLibraryProps = {
+  presets: JobPreset[];
+  onSave: (details: PresetDetails) => void;
+  onLoad: (preset: JobPreset) => void;
+  onDuplicate: (presetId: string) => void;
+  onDelete: (presetId: string) => void;
+  onExport: (presetIds: string[], includeCookies: boolean) => void;
+  onImport: () => void;
+};
+
+// Every word of the search has to appear in the name, the API type or a tag
+function matchesSearch(preset: JobPreset, search: string): boolean {
+  const haystack = [preset.name, preset.apiType, ...preset.tags].join(' ').toLowerCase();
+  return search
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((word) => haystack.includes(word));
+}
+
+function PresetLibrary({ presets, onSave, onLoad, onDuplicate, onDelete, onExport, onImport }: PresetLibraryProps) {
+  const [search, setSearch] = useState<string>('');
+  const [name, setName] = useState<string>('');
+  const [tags, setTags] = useState<string>('');
+  const [includeCookies, setIncludeCookies] = useState<boolean>(false);
+  const [exportCookies, setExportCookies] = useState<boolean>(false);
+
+  const shown = presets.filter((preset) => matchesSearch(preset, search));
+
+  const handleSave = () => {
+    onSave({ name, tags: tags.split(','), includeCookies });
+    setName('');
+    setTags('');
+    setIncludeCookies(false);
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white">
+      <div className="flex items-center space-x-4 border-b border-gray-200 p-3">
+        <Input
+          label="Search presets by name, API type or tag"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          nonce=""
+          onResize={noop}
+          onResizeCapture={noop}
+        />
+        <Button
+          onClick={() =>
+            onExport(
+              shown.map((preset) => preset.id),
+              exportCookies
+            )
+          }
+          disabled={shown.length === 0}
+          size="sm"
+          variant="outlined"
+          color="blue-gray"
+          className="shrink-0"
+          nonce=""
+          onResize={noop}
+          onResizeCapture={noop}
+        >
+          Export {shown.length === presets.length ? 'All' : `${shown.length} Shown`}
+        </Button>
+        <Button
+          onClick={onImport}
+          size="sm"
+          variant="outlined"
+          color="blue-gray"
+          className="shrink-0"
+          nonce=""
+          onResize={noop}
+          onResizeCapture={noop}
+        >
+          Import
+        </Button>
+      </div>
+      {presets.some((preset) => preset.cookies) && (
+        <div className="border-b border-gray-200 px-3">
+          <Checkbox
+            checked={exportCookies}
+            onChange={(e) => setExportCookies(e.target.checked)}
+            label="Include saved cookies in exports"
+            nonce=""
+            onResize={noop}
+            onResizeCapture={noop}
+          />
+        </div>
+      )}
+
+      {shown.length === 0 && (
+        <div className="p-3 text-gray-600">{presets.length === 0 ? 'No presets yet.' : 'No preset matches.'}</div>
+      )}
+      <div className="divide-y divide-gray-200">
+        {shown.map((preset) => (
+          <div key={preset.id} className="flex items-center justify-between p-3">
+            <div className="min-w-0">
+              <div className="font-medium">
+                {preset.name} · {preset.apiType}
+                {preset.cookies && ' · with cookies'}
+              </div>
+              <div className="flex flex-wrap items-center gap-1 text-sm text-gray-600">
+                {preset.tags.map((tag) => (
+                  <button
+                    key={tag}
+                    type="button"
+                    onClick={() => setSearch(tag)}
+                    className="rounded bg-gray-100 px-2 hover:bg-gray-200"
+                  >
+                    {tag}
+                  </button>
+                ))}
+                <span>Saved {new Date(preset.updatedAt).toLocaleString()}</span>
+              </div>
+            </div>
+            <div className="flex shrink-0 items-center space-x-2">
+              <Button
+                onClick={() => onLoad(preset)}
+                size="sm"
+                color="blue"
+                nonce=""
+                onResize={noop}
+                onResizeCapture={noop}
+              >
+                Load
+              </Button>
+              <Button
+                onClick={() => onDuplicate(preset.id)}
+                size="sm"
+                variant="outlined"
+                color="blue-gray"
+                nonce=""
+                onResize={noop}
+                onResizeCapture={noop}
+              >
+                Duplicate
+              </Button>
+              <Button
+                onClick={() => onDelete(preset.id)}
+                size="sm"
+                color="gray"
+                nonce=""
+                onResize={noop}
+                onResizeCapture={noop}
+              >
+                Delete
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center space-x-4 border-t border-gray-200 p-3">
+        <Input
+          label="Preset name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          nonce=""
+          onResize={noop}
+          onResizeCapture={noop}
+        />
+        <Input
+          label="Tags (comma-separated)"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          nonce=""
+          onResize={noop}
+          onResizeCapture={noop}
+        />
+        <Checkbox
+          checked={includeCookies}
+          onChange={(e) => setIncludeCookies(e.target.checked)}
+          label="Save cookies"
+          nonce=""
+          onResize={noop}
+          onResizeCapture={noop}
+        />
+        <Button
+          onClick={handleSave}
+          disabled={name.trim() === ''}
+          size="sm"
+          color="blue"
+          className="shrink-0"
+          nonce=""
+          onResize={noop}
+          onResizeCapture={noop}
+        >
+          Save Current Job as Preset
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default PresetLibrary;
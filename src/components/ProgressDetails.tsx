@@ -0,0 +1,73 @@
+// src/components/ProgressDetails.tsx
+
+import React, { useEffect, useState } from 'react';
+import { ProgressUpdate } from '../../electron/preload';
+
+type ProgressDetailsProps = {
+  update: ProgressUpdate;
+  hasEnrichment: boolean;
+};
+
+export function formatDuration(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+}
+
+function phaseLabel(update: ProgressUpdate, hasEnrichment: boolean): string {
+  if (!hasEnrichment) return `Fetching page ${update.page}`;
+  if (update.phase === 'search') return `Collecting IDs (page ${update.page})`;
+  return 'Enriching records';
+}
+
+function nextRequestLabel(update: ProgressUpdate, nextRequestIn: number | null): string {
+  if (!update.nextRequestAt || nextRequestIn === null) return 'now';
+  if (!update.waitReason) return `in ${formatDuration(nextRequestIn)}`;
+  // Waits for the run window or the request budget can last hours, so show when the job continues
+  const continuesAt = new Date(update.nextRequestAt).toLocaleString([], {
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+  return `${continuesAt} (${update.waitReason})`;
+}
+
+function ProgressDetails({ update, hasEnrichment }: ProgressDetailsProps) {
+  const [now, setNow] = useState<number>(Date.now());
+
+  // Ticks the countdown to the next request
+  useEffect(() => {
+    if (!update.nextRequestAt) return undefined;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [update.nextRequestAt]);
+
+  const nextRequestIn = update.nextRequestAt
+    ? Math.max(Math.ceil((new Date(update.nextRequestAt).getTime() - now) / 1000), 0)
+    : null;
+
+  const stats: [string, string][] = [
+    ['Phase', `${phaseLabel(update, hasEnrichment)}: ${update.phaseDone} of ${update.phaseTotal}`],
+    ['Rows written', `${update.rowsWritten}${update.skipped > 0 ? ` (${update.skipped} skipped)` : ''}`],
+    ['Requests', `${update.requests}${update.failures > 0 ? `, ${update.failures} failed` : ''}`],
+    ['Next request', nextRequestLabel(update, nextRequestIn)],
+    ['Throughput', `${update.rowsPerMinute.toFixed(1)} rows/min, ${update.requestsPerMinute.toFixed(1)} requests/min`],
+    ['Time left', update.etaSeconds !== undefined ? `about ${formatDuration(update.etaSeconds)}` : 'estimating…']
+  ];
+
+  return (
+    <div className="mt-3 grid grid-cols-2 gap-x-6 gap-y-1 text-sm text-gray-600">
+      {stats.map(([label, value]) => (
+        <div key={label} className="flex justify-between">
+          <span className="font-medium text-gray-700">{label}</span>
+          <span>{value}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default ProgressDetails;
@@ -0,0 +1,198 @@
+// src/components/RequestLimitsSettings.tsx
+
+import React, { useEffect, useState } from 'react';
+import { Button, Input } from '@material-tailwind/react';
+import { AppSettings, RunWindow } from '../../electron/preload';
+import noop from '../noop';
+
+type RequestLimitsSettingsProps = {
+  settings: AppSettings;
+  onSave: (changes: Partial<AppSettings>) => void;
+};
+
+// Listed from Monday; the values are JavaScript weekdays (0 = Sunday)
+const weekdays: [number, string][] = [
+  [1, 'Mon'],
+  [2, 'Tue'],
+  [3, 'Wed'],
+  [4, 'Thu'],
+  [5, 'Fri'],
+  [6, 'Sat'],
+  [0, 'Sun']
+];
+
+// Windows being edited carry a key for React, which is left out of the saved settings
+type EditedWindow = RunWindow & { key: string };
+
+let windowKeys = 0;
+
+function withKey({ days, start, end }: RunWindow): EditedWindow {
+  windowKeys += 1;
+  return { days, start, end, key: `window-${windowKeys}` };
+}
+
+function RequestLimitsSettings({ settings, onSave }: RequestLimitsSettingsProps) {
+  const [delayMin, setDelayMin] = useState<string>('');
+  const [delayMax, setDelayMax] = useState<string>('');
+  const [perHour, setPerHour] = useState<string>('');
+  const [perDay, setPerDay] = useState<string>('');
+  const [runWindows, setRunWindows] = useState<EditedWindow[]>([]);
+
+  useEffect(() => {
+    setDelayMin(String(settings.requestDelayMinMs / 1000));
+    setDelayMax(String(settings.requestDelayMaxMs / 1000));
+    setPerHour(String(settings.maxRequestsPerHour));
+    setPerDay(String(settings.maxRequestsPerDay));
+    setRunWindows(settings.runWindows.map(withKey));
+  }, [settings]);
+
+  const updateWindow = (index: number, changes: Partial<RunWindow>) => {
+    setRunWindows(
+      runWindows.map((runWindow, current) => (current === index ? { ...runWindow, ...changes } : runWindow))
+    );
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    const { days } = runWindows[index];
+    updateWindow(index, {
+      days: days.includes(day) ? days.filter((other) => other !== day) : [...days, day].sort((a, b) => a - b)
+    });
+  };
+
+  const addWindow = () =>
+    setRunWindows([...runWindows, withKey({ days: [1, 2, 3, 4, 5], start: '08:00', end: '18:00' })]);
+
+  const removeWindow = (index: number) => {
+    setRunWindows(runWindows.filter((_runWindow, current) => current !== index));
+  };
+
+  const handleSave = () => {
+    onSave({
+      requestDelayMinMs: parseFloat(delayMin) * 1000,
+      requestDelayMaxMs: parseFloat(delayMax) * 1000,
+      maxRequestsPerHour: parseInt(perHour, 10),
+      maxRequestsPerDay: parseInt(perDay, 10),
+      runWindows: runWindows.map(({ days, start, end }) => ({ days, start, end }))
+    });
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-4">
+      <div className="mb-4 flex items-center space-x-4">
+        <Input
+          type="number"
+          min="2"
+          label="Shortest delay (s)"
+          value={delayMin}
+          onChange={(e) => setDelayMin(e.target.value)}
+          nonce=""
+          onResize={noop}
+          onResizeCapture={noop}
+        />
+        <Input
+          type="number"
+          min="2"
+          label="Longest delay (s)"
+          value={delayMax}
+          onChange={(e) => setDelayMax(e.target.value)}
+          nonce=""
+          onResize={noop}
+          onResizeCapture={noop}
+        />
+        <Input
+          type="number"
+          min="0"
+          label="Requests per hour (0 = no limit)"
+          value={perHour}
+          onChange={(e) => setPerHour(e.target.value)}
+          nonce=""
+          onResize={noop}
+          onResizeCapture={noop}
+        />
+        <Input
+          type="number"
+          min="0"
+          label="Requests per day (0 = no limit)"
+          value={perDay}
+          onChange={(e) => setPerDay(e.target.value)}
+          nonce=""
+          onResize={noop}
+          onResizeCapture={noop}
+        />
+      </div>
+
+      <div className="mb-2 text-sm text-gray-600">
+        {runWindows.length === 0
+          ? 'Jobs may send requests at any time. Add a run window to limit them to certain hours.'
+          : 'Jobs only send requests inside these windows and wait for the next one otherwise.'}
+      </div>
+      {runWindows.map((runWindow, index) => (
+        <div key={runWindow.key} className="mb-2 flex items-center space-x-2">
+          {weekdays.map(([day, label]) => (
+            <Button
+              key={day}
+              onClick={() => toggleDay(index, day)}
+              size="sm"
+              variant={runWindow.days.includes(day) ? 'filled' : 'outlined'}
+              color="blue-gray"
+              className="px-2"
+              nonce=""
+              onResize={noop}
+              onResizeCapture={noop}
+            >
+              {label}
+            </Button>
+          ))}
+          <Input
+            type="time"
+            label="From"
+            value={runWindow.start}
+            onChange={(e) => updateWindow(index, { start: e.target.value })}
+            nonce=""
+            onResize={noop}
+            onResizeCapture={noop}
+          />
+          <Input
+            type="time"
+            label="Until"
+            value={runWindow.end}
+            onChange={(e) => updateWindow(index, { end: e.target.value })}
+            nonce=""
+            onResize={noop}
+            onResizeCapture={noop}
+          />
+          <Button
+            onClick={() => removeWindow(index)}
+            size="sm"
+            color="red"
+            variant="text"
+            nonce=""
+            onResize={noop}
+            onResizeCapture={noop}
+          >
+            Remove
+          </Button>
+        </div>
+      ))}
+
+      <div className="mt-3 flex items-center space-x-4">
+        <Button
+          onClick={addWindow}
+          size="sm"
+          variant="outlined"
+          color="blue-gray"
+          nonce=""
+          onResize={noop}
+          onResizeCapture={noop}
+        >
+          Add Run Window
+        </Button>
+        <Button onClick={handleSave} size="sm" color="blue" nonce="" onResize={noop} onResizeCapture={noop}>
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default RequestLimitsSettings;
@@ -0,0 +1,176 @@
+// src/components/ScheduleList.tsx
+
+import React, { useState } from 'react';
+import { Button, Input, Option, Select } from '@material-tailwind/react';
+import { JobSchedule, ScheduleFrequency } from '../../electron/preload';
+import noop from '../noop';
+
+export type ScheduleDetails = Pick<JobSchedule, 'name' | 'frequency' | 'time' | 'weekday' | 'cron'>;
+
+type ScheduleListProps = {
+  schedules: JobSchedule[];
+  // Whether the job form is complete enough to be saved as a schedule
+  canCreate: boolean;
+  onCreate: (details: ScheduleDetails) => void;
+  onToggle: (schedule: JobSchedule) => void;
+  onRunNow: (scheduleId: string) => void;
+  onDelete: (scheduleId: string) => void;
+};
+
+const weekdayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+function describeFrequency(schedule: JobSchedule): string {
+  if (schedule.frequency === 'cron') return `Cron: ${schedule.cron}`;
+  if (schedule.frequency === 'weekly') return `Every ${weekdayNames[schedule.weekday]} at ${schedule.time}`;
+  return `Every day at ${schedule.time}`;
+}
+
+function fileName(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() || filePath;
+}
+
+function ScheduleList({ schedules, canCreate, onCreate, onToggle, onRunNow, onDelete }: ScheduleListProps) {
+  const [name, setName] = useState<string>('');
+  const [frequency, setFrequency] = useState<ScheduleFrequency>('daily');
+  const [time, setTime] = useState<string>('07:00');
+  const [weekday, setWeekday] = useState<number>(1);
+  const [cron, setCron] = useState<string>('0 7 * * 1-5');
+
+  const handleCreate = () => {
+    onCreate({ name, frequency, time, weekday, cron });
+    setName('');
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white">
+      {schedules.length === 0 && <div className="p-3 text-gray-600">No schedules yet.</div>}
+      <div className="divide-y divide-gray-200">
+        {schedules.map((schedule) => (
+          <div key={schedule.id} className="flex items-center justify-between p-3">
+            <div className="min-w-0">
+              <div className="font-medium">
+                {schedule.name} · {schedule.scrapeData.apiType}
+              </div>
+              <div className="truncate text-sm text-gray-600" title={schedule.scrapeData.savePath}>
+                {describeFrequency(schedule)} → {fileName(schedule.scrapeData.savePath)}
+              </div>
+              <div className="text-sm text-gray-600">
+                {schedule.enabled && schedule.nextRunAt
+                  ? `Next run ${new Date(schedule.nextRunAt).toLocaleString()}`
+                  : 'Paused'}
+                {schedule.lastRunAt &&
+                  ` · Last run ${new Date(schedule.lastRunAt).toLocaleString()} found ${schedule.lastNewRecords} new`}
+              </div>
+            </div>
+            <div className="flex shrink-0 items-center space-x-2">
+              <Button
+                onClick={() => onRunNow(schedule.id)}
+                size="sm"
+                color="green"
+                nonce=""
+                onResize={noop}
+                onResizeCapture={noop}
+              >
+                Run Now
+              </Button>
+              <Button
+                onClick={() => onToggle(schedule)}
+                size="sm"
+                variant="outlined"
+                color="blue-gray"
+                nonce=""
+                onResize={noop}
+                onResizeCapture={noop}
+              >
+                {schedule.enabled ? 'Pause' : 'Enable'}
+              </Button>
+              <Button
+                onClick={() => onDelete(schedule.id)}
+                size="sm"
+                color="gray"
+                nonce=""
+                onResize={noop}
+                onResizeCapture={noop}
+              >
+                Delete
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center space-x-4 border-t border-gray-200 p-3">
+        <Input
+          label="Schedule name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          nonce=""
+          onResize={noop}
+          onResizeCapture={noop}
+        />
+        <Select
+          label="Repeat"
+          value={frequency}
+          onChange={(value) => setFrequency((value as ScheduleFrequency) || 'daily')}
+          nonce=""
+          onResize={noop}
+          onResizeCapture={noop}
+        >
+          <Option value="daily">Daily</Option>
+          <Option value="weekly">Weekly</Option>
+          <Option value="cron">Cron expression</Option>
+        </Select>
+        {frequency === 'weekly' && (
+          <Select
+            label="Day"
+            value={String(weekday)}
+            onChange={(value) => setWeekday(Number(value || 1))}
+            nonce=""
+            onResize={noop}
+            onResizeCapture={noop}
+          >
+            {weekdayNames.map((dayName, day) => (
+              <Option key={dayName} value={String(day)}>
+                {dayName}
+              </Option>
+            ))}
+          </Select>
+        )}
+        {frequency === 'cron' ? (
+          <Input
+            label="Minute hour day month weekday"
+            value={cron}
+            onChange={(e) => setCron(e.target.value)}
+            nonce=""
+            onResize={noop}
+            onResizeCapture={noop}
+          />
+        ) : (
+          <Input
+            type="time"
+            label="Time"
+            value={time}
+            onChange={(e) => setTime(e.target.value)}
+            nonce=""
+            onResize={noop}
+            onResizeCapture={noop}
+          />
+        )}
+        <Button
+          onClick={handleCreate}
+          disabled={!canCreate || name.trim() === ''}
+          size="sm"
+          color="blue"
+          className="shrink-0"
+          nonce=""
+          onResize={noop}
+          onResizeCapture={noop}
+        >
+          Save Job as Schedule
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default ScheduleList;
@@ -0,0 +1,6 @@
+// src/noop.ts
+
+// For the handlers Material Tailwind's typings require but the app does not use, e.g. onResize
+const noop = () => undefined;
+
+export default noop;
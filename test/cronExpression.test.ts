@@ -0,0 +1,17 @@
+// test/cronExpression.test.ts
+
+import assert from 'assert/strict';
+import { nextCronTime } from '../electron/cronExpression';
+
+describe('cron expressions', () => {
+  it('runs on a day matching either day field when both are restricted', () => {
+    // The 15th of June 2024 is a Saturday, the 10th a Monday
+    assert.deepEqual(nextCronTime('0 7 15 * 1', new Date(2024, 5, 8, 12)), new Date(2024, 5, 10, 7));
+    assert.deepEqual(nextCronTime('0 7 15 * 1', new Date(2024, 5, 10, 12)), new Date(2024, 5, 15, 7));
+  });
+
+  it('treats a stepped day of month like "*", so both day fields have to match', () => {
+    // Every other day that is also a Monday: the 5th is odd but a Wednesday, the 17th odd and a Monday
+    assert.deepEqual(nextCronTime('0 0 */2 * 1', new Date(2024, 5, 3, 1)), new Date(2024, 5, 17, 0));
+  });
+});
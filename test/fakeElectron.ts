@@ -0,0 +1,83 @@
+// test/fakeElectron.ts
+//
+// Stands in for the parts of Electron the main process uses, so electron/index.ts runs in
+// plain Node against the mock server. Importing this module puts the fake into the require
+// cache under the path 'electron' resolves to, so it has to be imported before the main process.
+
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import Module from 'module';
+import os from 'os';
+import path from 'path';
+
+type IpcListener = (event: IpcEvent, ...args: unknown[]) => unknown;
+
+type IpcEvent = {
+  sender: { send: (channel: string, ...args: unknown[]) => void };
+};
+
+// Messages the main process sends to the renderer, by channel
+export const rendererEvents = new EventEmitter();
+// The main process reports errors on the 'error' channel, which an EventEmitter throws unless it has a listener
+rendererEvents.on('error', () => undefined);
+
+export const ipcListeners = new Map<string, IpcListener>();
+export const ipcHandlers = new Map<string, IpcListener>();
+
+export const userDataPath = fs.mkdtempSync(path.join(os.tmpdir(), 'scraper-test-'));
+
+let launch: () => void = () => undefined;
+const ready = new Promise<void>((resolve) => {
+  launch = resolve;
+});
+
+// Lets the main process create its window, once the tests stored the settings they run with
+export function startApp() {
+  launch();
+}
+
+// Like real IPC, a message reaches the renderer only after the sending code went on
+const sendToRenderer = (channel: string, ...args: unknown[]) => {
+  setImmediate(() => rendererEvents.emit(channel, ...args));
+};
+
+export const ipcEvent: IpcEvent = { sender: { send: sendToRenderer } };
+
+// Constructed with `new BrowserWindow()`, which returns the fake window in place of `this`
+function FakeBrowserWindow() {
+  return {
+    webContents: {
+      send: sendToRenderer,
+      // The page is "loaded" as soon as the main process waits for it
+      once: (_event: string, callback: () => void) => setImmediate(callback)
+    },
+    loadURL: () => Promise.resolve(),
+    setMenuBarVisibility: () => undefined,
+    isDestroyed: () => false
+  };
+}
+
+const fakeElectron = {
+  app: {
+    isPackaged: false,
+    getPath: () => userDataPath,
+    whenReady: () => ready,
+    on: () => undefined,
+    quit: () => undefined
+  },
+  BrowserWindow: FakeBrowserWindow,
+  ipcMain: {
+    on: (channel: string, listener: IpcListener) => ipcListeners.set(channel, listener),
+    handle: (channel: string, listener: IpcListener) => ipcHandlers.set(channel, listener)
+  },
+  nativeTheme: { themeSource: 'system' },
+  shell: { openPath: () => Promise.resolve('') },
+  dialog: {},
+  powerMonitor: { on: () => undefined }
+};
+
+const electronPath = require.resolve('electron');
+const electronModule = new Module(electronPath);
+electronModule.exports = fakeElectron;
+electronModule.loaded = true;
+require.cache[electronPath] = electronModule;
@@ -0,0 +1,123 @@
+// test/harness.ts
+//
+// Runs the main process with a fake Electron and drives it through IPC the way the renderer
+// does, so a test can run whole jobs against the mock server and read what they wrote.
+
+import fs from 'fs';
+import { AddressInfo } from 'net';
+import path from 'path';
+import axios from 'axios';
+import storage from 'node-persist';
+import { ipcEvent, ipcHandlers, ipcListeners, rendererEvents, startApp, userDataPath } from './fakeElectron';
+import '../electron/index';
+import { AppSettings, BrowserCookie, QueueState, QueuedJob, ScrapeData } from '../electron/preload';
+import { MockRequestLog, MockServerOptions, createMockServer } from './mockServer';
+
+// No pauses between requests, short retry backoff and request timeout, and a renewal wait that a
+// test can outlast
+const testSettings: Partial<AppSettings> = {
+  requestDelayMinMs: 0,
+  requestDelayMaxMs: 0,
+  retryMaxAttempts: 3,
+  retryBaseDelayMs: 10,
+  retryMaxDelayMs: 50,
+  requestTimeoutMs: 1000,
+  cookieRenewalTimeoutMs: 2000
+};
+
+const JOB_TIMEOUT_MS = 20000;
+
+export type MockApi = {
+  requests: () => Promise<MockRequestLog[]>;
+  close: () => Promise<void>;
+};
+
+let launched: Promise<void> | null = null;
+
+// The IPC handlers are registered together once the window was created
+function waitForHandlers(): Promise<void> {
+  if (ipcHandlers.has('get-queue')) return Promise.resolve();
+  return new Promise((resolve) => {
+    setImmediate(resolve);
+  }).then(waitForHandlers);
+}
+
+export function launchApp(): Promise<void> {
+  if (!launched) {
+    launched = (async () => {
+      await storage.init({ dir: path.join(userDataPath, 'scraper-app-state') });
+      await storage.setItem('settings', testSettings);
+      startApp();
+      await waitForHandlers();
+    })();
+  }
+  return launched;
+}
+
+// Starts the mock server on a free port and points the main process at it
+export async function startMockApi(options: MockServerOptions): Promise<MockApi> {
+  const server = createMockServer(options);
+  await new Promise<void>((resolve) => {
+    server.listen(0, '127.0.0.1', resolve);
+  });
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  process.env.ZOOMINFO_BASE_URL = baseUrl;
+  return {
+    requests: async () => (await axios.get<MockRequestLog[]>(`${baseUrl}/__mock/requests`)).data,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.close(() => resolve());
+      })
+  };
+}
+
+export function sessionCookies(token: string): BrowserCookie[] {
+  return [
+    { name: 'userId', value: '42' },
+    { name: 'ziaccesstoken', value: token },
+    { name: 'ziid', value: 'mock-id' },
+    { name: 'zisession', value: 'mock-session' }
+  ];
+}
+
+export function sendToMain(channel: string, ...args: unknown[]) {
+  const listener = ipcListeners.get(channel);
+  if (!listener) {
+    throw new Error(`The main process does not listen on "${channel}".`);
+  }
+  return listener(ipcEvent, ...args);
+}
+
+export function outputPath(name: string): string {
+  return path.join(fs.mkdtempSync(path.join(userDataPath, 'output-')), name);
+}
+
+export function invokeMain(channel: string, ...args: unknown[]) {
+  const handler = ipcHandlers.get(channel);
+  if (!handler) {
+    throw new Error(`The main process does not handle "${channel}".`);
+  }
+  return handler(ipcEvent, ...args);
+}
+
+// Queues the job, runs the queue and resolves with the job once the queue is idle again
+export async function runJob(scrapeData: Omit<ScrapeData, 'headers'>): Promise<QueuedJob> {
+  const queued = ((await invokeMain('get-queue')) as QueueState).jobs.length;
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const timeout = setTimeout(() => {
+      settled = true;
+      reject(new Error('The job did not finish in time.'));
+    }, JOB_TIMEOUT_MS);
+    const onUpdate = ({ jobs, running }: QueueState) => {
+      const job = jobs[queued];
+      if (settled || running || !job || job.status === 'pending' || job.status === 'running') return;
+      settled = true;
+      clearTimeout(timeout);
+      rendererEvents.off('queue-updated', onUpdate);
+      resolve(job);
+    };
+    rendererEvents.on('queue-updated', onUpdate);
+    sendToMain('start-scraping', { ...scrapeData, headers: {} });
+  });
+}
@@ -0,0 +1,286 @@
+// test/mockServer.ts
+//
+// Local stand-in for the ZoomInfo endpoints the scraper calls, serving generated fixture
+// records so jobs can be run offline by pointing the base URL setting (or the
+// ZOOMINFO_BASE_URL environment variable) at it. The test suite runs its jobs against it.
+// It is built with the tests, so it is not part of the packaged app.
+//
+//   npm run mock-server -- --port=4010 --records=60 --fail=companySearch:2:401 --fail=viewContacts:3:503
+
+import http from 'http';
+
+export type MockEndpoint = 'companySearch' | 'personSearch' | 'scoopsAdvancedSearch' | 'viewContacts';
+
+/**
+ * Makes the `call`-th request (1-based) to `endpoint` fail. 401/403 expire the session token
+ * that was used, so every later request with the same token fails until new cookies are sent.
+ * 'empty' answers with a page without results; 'hang' never answers, as a stalled server does, and
+ * is left out of the request log.
+ */
+export type MockFailure = {
+  endpoint: MockEndpoint;
+  call: number;
+  response: 401 | 403 | 429 | 500 | 502 | 503 | 'empty' | 'hang';
+};
+
+export type MockServerOptions = {
+  records?: number;
+  // Results per page for payloads that do not ask for a page size, like the real API
+  pageSize?: number;
+  failures?: MockFailure[];
+};
+
+type MockPayload = Record<string, unknown>;
+
+export type MockRequestLog = {
+  endpoint: string;
+  call: number;
+  status: number;
+  page?: number;
+  body: MockPayload;
+};
+
+const endpointPaths: Record<string, MockEndpoint> = {
+  '/profiles/graphql/companySearch': 'companySearch',
+  '/profiles/graphql/personSearch': 'personSearch',
+  '/profiles/graphql/scoopsAdvancedSearch': 'scoopsAdvancedSearch',
+  '/anura/userData/viewContacts': 'viewContacts'
+};
+
+const location = (index: number) => ({
+  City: 'Austin',
+  CountryCode: 'US',
+  State: 'TX',
+  Street: `${index} Congress Ave`,
+  Zip: '78701',
+  metroArea: 'Austin, TX'
+});
+
+export function mockCompany(index: number) {
+  return {
+    companyID: 100000 + index,
+    companyName: `Mock Company ${index}`,
+    companyDomain: `company${index}.example.com`,
+    companyType: 'Private',
+    companyPhone: `(555) 010-${String(index).padStart(4, '0')}`,
+    revenue: 1000 * index,
+    employees: 10 + index,
+    topLevelIndustry: ['Software', 'Business Services'],
+    website: `www.company${index}.example.com`,
+    companyDescription: `Description of mock company ${index}`,
+    location: location(index)
+  };
+}
+
+export function mockPerson(index: number) {
+  const company = mockCompany(index);
+  return {
+    personID: 500000 + index,
+    firstName: `First${index}`,
+    lastName: `Last${index}`,
+    jobTitle: 'Software Engineer',
+    socialUrlsParsed: {
+      linkedin: `https://www.linkedin.com/in/person${index}`,
+      twitter: `https://twitter.com/person${index}`
+    },
+    location: location(index),
+    companyDomain: company.companyDomain,
+    companyName: company.companyName,
+    companyPhone: company.companyPhone,
+    companyRevenue: company.revenue,
+    employmentHistory: [{ companyWebsite: company.website }],
+    companyDescription: company.companyDescription
+  };
+}
+
+export function mockContact(personId: number) {
+  const index = personId - 500000;
+  const person = mockPerson(index);
+  const company = mockCompany(index);
+  return {
+    personID: personId,
+    firstName: person.firstName,
+    middleInitial: 'Q',
+    lastName: person.lastName,
+    title: company.companyName,
+    jobTitle: person.jobTitle,
+    phone: `(555) 020-${String(index).padStart(4, '0')}`,
+    personalEmail: `first${index}@company${index}.example.com`,
+    email: `first${index}.last${index}@example.com`,
+    location: person.location,
+    companyID: company.companyID,
+    companyName: company.companyName,
+    companyRevenue: company.revenue,
+    companyEmployees: company.employees,
+    companyDomain: company.companyDomain,
+    website: company.website,
+    companyDescription: company.companyDescription,
+    companyPhone: company.companyPhone,
+    companyTicker: '',
+    topLevelIndustry: company.topLevelIndustry,
+    companyType: company.companyType,
+    companyAddress: company.location,
+    confidenceScore: 95
+  };
+}
+
+export function mockScoop(index: number) {
+  const company = mockCompany(index);
+  // Newest scoop first, one day apart
+  const published = new Date(Date.UTC(2024, 5, 30) - (index - 1) * 24 * 60 * 60 * 1000);
+  return {
+    scoopId: 900000 + index,
+    publishedDate: published.toISOString(),
+    description: `Mock scoop ${index}`,
+    scoopTypes: { scoopType: ['11'] },
+    scoopTopics: { scoopTopic: ['50', '226'] },
+    companyRecord: {
+      companyID: company.companyID,
+      companyName: company.companyName,
+      companyDomain: company.companyDomain,
+      website: company.website
+    }
+  };
+}
+
+const searchGenerators: Record<string, (index: number) => object> = {
+  companySearch: mockCompany,
+  personSearch: mockPerson,
+  scoopsAdvancedSearch: mockScoop
+};
+
+// The search endpoints read the page number and page size at the top of the payload
+function readNumber(payload: MockPayload, keys: string[]): number | undefined {
+  return keys
+    .map((name) => payload[name])
+    .find((value): value is number => Number.isInteger(value) && Number(value) > 0);
+}
+
+function readBody(request: http.IncomingMessage): Promise<MockPayload> {
+  return new Promise((resolve) => {
+    let raw = '';
+    request.on('data', (chunk) => {
+      raw += chunk;
+    });
+    request.on('end', () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch (error) {
+        resolve({});
+      }
+    });
+  });
+}
+
+export function createMockServer(options: MockServerOptions = {}) {
+  const records = options.records ?? 60;
+  const defaultPageSize = options.pageSize ?? 25;
+  const failures = options.failures || [];
+  const calls: Record<string, number> = {};
+  const expiredTokens = new Map<string, number>();
+  const requests: MockRequestLog[] = [];
+
+  function send(response: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+    response.writeHead(status, { 'content-type': 'application/json', ...headers });
+    response.end(JSON.stringify(body));
+  }
+
+  function respond(endpoint: MockEndpoint, body: MockPayload, page: number, emptyPage: boolean) {
+    if (endpoint === 'viewContacts') {
+      const requested = Array.isArray(body.contacts) ? body.contacts : [];
+      const contacts = emptyPage ? [] : requested.map((contact: { personId?: unknown }) => Number(contact.personId));
+      return { data: contacts.map(mockContact) };
+    }
+    const pageSize = readNumber(body, ['rpp', 'size']) ?? defaultPageSize;
+    const first = (page - 1) * pageSize + 1;
+    const last = emptyPage ? first - 1 : Math.min(first + pageSize - 1, records);
+    const data = [];
+    for (let index = first; index <= last; index += 1) {
+      data.push(searchGenerators[endpoint](index));
+    }
+    return { data: { [endpoint]: { data, totalResults: records } } };
+  }
+
+  return http.createServer(async (request, response) => {
+    const url = new URL(request.url || '/', 'http://localhost');
+
+    if (url.pathname === '/__mock/requests') {
+      send(response, 200, requests);
+      return;
+    }
+
+    const endpoint = endpointPaths[url.pathname];
+    if (!endpoint || request.method !== 'POST') {
+      send(response, 404, { error: `No mock for ${request.method} ${url.pathname}` });
+      return;
+    }
+
+    const body = await readBody(request);
+    calls[endpoint] = (calls[endpoint] || 0) + 1;
+    const call = calls[endpoint];
+    const page = endpoint === 'viewContacts' ? undefined : readNumber(body, ['page']) ?? 1;
+    const token = String(request.headers['x-ziaccesstoken'] || '');
+    const log = (status: number) => requests.push({ endpoint, call, status, page, body });
+
+    if (!token || !request.headers['x-ziid'] || !request.headers['x-zisession']) {
+      log(401);
+      send(response, 401, { error: 'Missing session headers' });
+      return;
+    }
+
+    const expiredStatus = expiredTokens.get(token);
+    if (expiredStatus) {
+      log(expiredStatus);
+      send(response, expiredStatus, { error: 'Session expired' });
+      return;
+    }
+
+    const failure = failures.find((rule) => rule.endpoint === endpoint && rule.call === call);
+    if (failure?.response === 'hang') {
+      return;
+    }
+    if (failure && failure.response !== 'empty') {
+      if (failure.response === 401 || failure.response === 403) {
+        expiredTokens.set(token, failure.response);
+      }
+      log(failure.response);
+      send(
+        response,
+        failure.response,
+        { error: `Mock failure ${failure.response}` },
+        failure.response === 429 ? { 'retry-after': '1' } : {}
+      );
+      return;
+    }
+
+    log(200);
+    send(response, 200, respond(endpoint, body, page ?? 1, failure?.response === 'empty'));
+  });
+}
+
+function parseFailure(value: string): MockFailure {
+  const [endpoint, call, response] = value.split(':');
+  if (!Object.values(endpointPaths).includes(endpoint as MockEndpoint) || !call || !response) {
+    throw new Error(`Invalid --fail value "${value}", expected <endpoint>:<call>:<status|empty|hang>`);
+  }
+  return {
+    endpoint: endpoint as MockEndpoint,
+    call: Number(call),
+    response: (response === 'empty' || response === 'hang' ? response : Number(response)) as MockFailure['response']
+  };
+}
+
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const option = (name: string) => args.filter((arg) => arg.startsWith(`--${name}=`)).map((arg) => arg.split('=')[1]);
+
+  const port = Number(option('port')[0] || 4010);
+  const server = createMockServer({
+    records: option('records')[0] ? Number(option('records')[0]) : undefined,
+    pageSize: option('page-size')[0] ? Number(option('page-size')[0]) : undefined,
+    failures: option('fail')
+      .flatMap((value) => value.split(','))
+      .map(parseFailure)
+  });
+  server.listen(port);
+}
@@ -0,0 +1,68 @@
+// test/outputSinks.test.ts
+
+import assert from 'assert/strict';
+import fs from 'fs';
+import ExcelJS from 'exceljs';
+import initSqlJs from 'sql.js';
+import { openOutputSink } from '../electron/outputSinks';
+import { outputPath } from './harness';
+
+const sinkOptions = { append: false, columns: ['ID', 'Name'], idColumn: 'ID', tableName: 'results' };
+
+describe('output sinks', () => {
+  it('has every CSV row written before a flush on disk once it resolves', async () => {
+    const savePath = outputPath('rows.csv');
+    const output = await openOutputSink(savePath, sinkOptions);
+
+    await output.write({ ID: '1', Name: 'One' });
+    await output.write({ ID: '2', Name: 'Two, quoted' });
+    await output.flush();
+
+    assert.equal(fs.readFileSync(savePath, 'utf8'), 'ID,Name\n1,One\n2,"Two, quoted"\n');
+    await output.close();
+  });
+
+  it('spools XLSX rows until close and appends to an existing workbook', async () => {
+    const savePath = outputPath('rows.xlsx');
+    const first = await openOutputSink(savePath, sinkOptions);
+    await first.write({ ID: '1', Name: 'One' });
+    await first.flush();
+    assert.ok(fs.existsSync(`${savePath}.rows.jsonl`));
+    await first.close();
+
+    const second = await openOutputSink(savePath, { ...sinkOptions, append: true });
+    await second.write({ ID: '2', Name: 'Two' });
+    await second.close();
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.readFile(savePath);
+    const rows: unknown[][] = [];
+    workbook.getWorksheet('Results')?.eachRow((row) => rows.push((row.values as unknown[]).slice(1)));
+    assert.deepEqual(rows, [
+      ['ID', 'Name'],
+      ['1', 'One'],
+      ['2', 'Two']
+    ]);
+    assert.equal(fs.existsSync(`${savePath}.rows.jsonl`), false);
+  });
+
+  it('upserts SQLite rows by ID but keeps every row without one', async () => {
+    const savePath = outputPath('rows.sqlite');
+    const output = await openOutputSink(savePath, sinkOptions);
+
+    await output.write({ ID: '1', Name: 'One' });
+    await output.write({ ID: '1', Name: 'One again' });
+    await output.write({ ID: '', Name: 'No ID' });
+    await output.write({ ID: '', Name: 'No ID either' });
+    await output.close();
+
+    const SQL = await initSqlJs();
+    const db = new SQL.Database(fs.readFileSync(savePath));
+    assert.deepEqual(db.exec('SELECT ID, Name FROM results ORDER BY rowid')[0].values, [
+      ['1', 'One again'],
+      [null, 'No ID'],
+      [null, 'No ID either']
+    ]);
+    db.close();
+  });
+});
@@ -0,0 +1,274 @@
+// test/scraping.test.ts
+
+import assert from 'assert/strict';
+import fs from 'fs';
+import { CookieRenewalRequest } from '../electron/preload';
+import { getIncrementalCursor } from '../electron/incrementalSearch';
+import { hasResponseArchive, rebuildExport } from '../electron/responseArchive';
+import { MockApi, launchApp, outputPath, runJob, sendToMain, sessionCookies, startMockApi } from './harness';
+import { rendererEvents } from './fakeElectron';
+
+const companyHeader =
+  'Company ID,Company Name,Company Domain,Company Type,Company Phone,Revenue,Employees,Top Level Industry 0,' +
+  'Top Level Industry 1,Website,Company Description,City,Country Code,State,Street,Zip';
+
+function companyRow(index: number): string {
+  const phone = `(555) 010-${String(index).padStart(4, '0')}`;
+  return [
+    100000 + index,
+    `Mock Company ${index}`,
+    `company${index}.example.com`,
+    'Private',
+    phone,
+    1000 * index,
+    10 + index,
+    'Software',
+    'Business Services',
+    `www.company${index}.example.com`,
+    `Description of mock company ${index}`,
+    'Austin',
+    'US',
+    'TX',
+    `${index} Congress Ave`,
+    '78701'
+  ].join(',');
+}
+
+function expectedCsv(indexes: number[]): string {
+  return `${[companyHeader, ...indexes.map(companyRow)].join('\n')}\n`;
+}
+
+function companyJob(savePath: string, payload: Record<string, unknown>, totalResults: number, startIdx = 0) {
+  return {
+    apiType: 'Company Search',
+    cookies: sessionCookies('token-1'),
+    payload,
+    totalResults,
+    startIdx,
+    savePath
+  };
+}
+
+describe('scraping a search', () => {
+  let api: MockApi | null = null;
+  const listeners: (() => void)[] = [];
+
+  // Listens for a message to the renderer until the test ends
+  function onRenderer<T>(channel: string, listener: (arg: T) => void) {
+    rendererEvents.on(channel, listener);
+    listeners.push(() => rendererEvents.off(channel, listener));
+  }
+
+  before(() => launchApp());
+
+  afterEach(async () => {
+    listeners.splice(0).forEach((removeListener) => removeListener());
+    await api?.close();
+    api = null;
+  });
+
+  it('writes every record of a Company Search to the CSV, page by page', async () => {
+    api = await startMockApi({ records: 5 });
+    const savePath = outputPath('companies.csv');
+
+    const job = await runJob(companyJob(savePath, { page: 1, rpp: 2, industryKeywords: 'Software' }, 5));
+
+    assert.equal(job.status, 'completed');
+    assert.equal(job.resultsCollected, 5);
+    assert.equal(fs.readFileSync(savePath, 'utf8'), expectedCsv([1, 2, 3, 4, 5]));
+    const requests = await api.requests();
+    assert.deepEqual(
+      requests.map(({ page, status }) => ({ page, status })),
+      [1, 2, 3].map((page) => ({ page, status: 200 }))
+    );
+    // Only the page number changes between the requests
+    assert.deepEqual(
+      requests.map(({ body }) => body),
+      [1, 2, 3].map((page) => ({ page, rpp: 2, industryKeywords: 'Software' }))
+    );
+  });
+
+  it('starts at the start index inside a page and stops at the number of results', async () => {
+    api = await startMockApi({ records: 60 });
+    const savePath = outputPath('companies.csv');
+
+    const job = await runJob(companyJob(savePath, { page: 1, rpp: 10 }, 12, 15));
+
+    assert.equal(job.status, 'completed');
+    assert.equal(fs.readFileSync(savePath, 'utf8'), expectedCsv([16, 17, 18, 19, 20, 21, 22, 23, 24, 25, 26, 27]));
+    assert.deepEqual(
+      (await api.requests()).map(({ page }) => page),
+      [2, 3]
+    );
+  });
+
+  it('pages by the size field and from the page the payload starts at', async () => {
+    api = await startMockApi({ records: 6 });
+    const savePath = outputPath('companies.csv');
+
+    const job = await runJob(companyJob(savePath, { page: 2, size: 2 }, 10, 1));
+
+    assert.equal(job.status, 'completed');
+    assert.equal(fs.readFileSync(savePath, 'utf8'), expectedCsv([4, 5, 6]));
+    assert.deepEqual(
+      (await api.requests()).map(({ page }) => page),
+      [2, 3, 4]
+    );
+  });
+
+  it('rebuilds only the rows the job wrote from the response archive', async () => {
+    api = await startMockApi({ records: 60 });
+    const savePath = outputPath('companies.csv');
+
+    await runJob({ ...companyJob(savePath, { page: 1, rpp: 10 }, 12, 15), archiveResponses: true });
+    const rebuiltPath = outputPath('rebuilt.csv');
+
+    assert.equal(await rebuildExport(savePath, rebuiltPath), 12);
+    assert.equal(fs.readFileSync(rebuiltPath, 'utf8'), fs.readFileSync(savePath, 'utf8'));
+  });
+
+  it('removes the response archive when a run without archiving writes the same output', async () => {
+    api = await startMockApi({ records: 4 });
+    const savePath = outputPath('companies.csv');
+
+    await runJob({ ...companyJob(savePath, { page: 1, rpp: 2 }, 4), archiveResponses: true });
+    assert.ok(hasResponseArchive(savePath));
+    await runJob(companyJob(savePath, { page: 1, rpp: 2 }, 2));
+
+    assert.equal(hasResponseArchive(savePath), false);
+  });
+
+  it('keeps the response archive when a run without archiving appends to the output', async () => {
+    api = await startMockApi({ records: 4 });
+    const savePath = outputPath('companies.csv');
+
+    await runJob({ ...companyJob(savePath, { page: 1, rpp: 2 }, 2), archiveResponses: true });
+    await runJob({ ...companyJob(savePath, { page: 2, rpp: 2 }, 2), appendToExisting: true });
+
+    assert.ok(hasResponseArchive(savePath));
+    assert.equal(fs.readFileSync(savePath, 'utf8'), expectedCsv([1, 2, 3, 4]));
+  });
+
+  it('moves the incremental cursor only once paging reached the last page', async () => {
+    api = await startMockApi({ records: 5 });
+    const payload = { page: 1, rpp: 2, scoopTopics: ['50'] };
+    const scoopJob = (totalResults: number) => ({
+      ...companyJob(outputPath('scoops.csv'), payload, totalResults),
+      apiType: 'Scoops Search',
+      incremental: true
+    });
+
+    assert.equal((await runJob(scoopJob(3))).status, 'completed');
+    assert.equal(await getIncrementalCursor('Scoops Search', payload), null);
+
+    assert.equal((await runJob(scoopJob(10))).status, 'completed');
+    const cursor = await getIncrementalCursor('Scoops Search', payload);
+    assert.equal(cursor?.newestDate, '2024-06-30T00:00:00.000Z');
+    assert.deepEqual(cursor?.ids, ['900001']);
+  });
+
+  it('ends the job at the last page when there are fewer results than asked for', async () => {
+    api = await startMockApi({ records: 3 });
+    const savePath = outputPath('companies.csv');
+
+    const job = await runJob(companyJob(savePath, { page: 1, rpp: 2 }, 10));
+
+    assert.equal(job.status, 'completed');
+    assert.equal(fs.readFileSync(savePath, 'utf8'), expectedCsv([1, 2, 3]));
+    assert.deepEqual(
+      (await api.requests()).map(({ page }) => page),
+      [1, 2, 3]
+    );
+  });
+
+  it('asks for new cookies when the session expires and retries the page with them', async () => {
+    api = await startMockApi({ records: 5, failures: [{ endpoint: 'companySearch', call: 2, response: 401 }] });
+    const savePath = outputPath('companies.csv');
+    const renewals: CookieRenewalRequest[] = [];
+    const renew = (request: CookieRenewalRequest) => {
+      renewals.push(request);
+      sendToMain('update-cookies', sessionCookies('token-2'));
+    };
+    onRenderer('request-new-cookies', renew);
+
+    const job = await runJob(companyJob(savePath, { page: 1, rpp: 2 }, 5));
+
+    assert.equal(job.status, 'completed');
+    assert.equal(renewals.length, 1);
+    assert.equal(renewals[0].status, 401);
+    assert.equal(renewals[0].request, 'POST /profiles/graphql/companySearch (page 2)');
+    assert.equal(fs.readFileSync(savePath, 'utf8'), expectedCsv([1, 2, 3, 4, 5]));
+    assert.deepEqual(
+      (await api.requests()).map(({ page, status }) => `${page}:${status}`),
+      ['1:200', '2:401', '2:200', '3:200']
+    );
+  });
+
+  it('stops the job and keeps what it wrote when no new cookies arrive', async () => {
+    api = await startMockApi({ records: 5, failures: [{ endpoint: 'companySearch', call: 2, response: 403 }] });
+    const savePath = outputPath('companies.csv');
+    const timedOut: string[] = [];
+    const onTimeout = (message: string) => timedOut.push(message);
+    onRenderer('cookie-renewal-timed-out', onTimeout);
+
+    const job = await runJob(companyJob(savePath, { page: 1, rpp: 2 }, 5));
+
+    assert.equal(job.status, 'stopped');
+    assert.equal(timedOut.length, 1);
+    assert.equal(fs.readFileSync(savePath, 'utf8'), expectedCsv([1, 2]));
+  });
+
+  it('fails the job when the cookies sent for a renewal are unusable', async () => {
+    api = await startMockApi({ records: 5, failures: [{ endpoint: 'companySearch', call: 2, response: 401 }] });
+    const savePath = outputPath('companies.csv');
+    onRenderer('request-new-cookies', () => sendToMain('update-cookies', []));
+
+    const job = await runJob(companyJob(savePath, { page: 1, rpp: 2 }, 5));
+
+    assert.equal(job.status, 'failed');
+    assert.match(job.error || '', /The new cookies were not used/);
+    assert.equal(fs.readFileSync(savePath, 'utf8'), expectedCsv([1, 2]));
+  });
+
+  it('retries a page after a server error without writing its rows twice', async () => {
+    api = await startMockApi({ records: 4, failures: [{ endpoint: 'companySearch', call: 2, response: 503 }] });
+    const savePath = outputPath('companies.csv');
+
+    const job = await runJob(companyJob(savePath, { page: 1, rpp: 2 }, 4));
+
+    assert.equal(job.status, 'completed');
+    assert.equal(fs.readFileSync(savePath, 'utf8'), expectedCsv([1, 2, 3, 4]));
+    assert.deepEqual(
+      (await api.requests()).map(({ page, status }) => `${page}:${status}`),
+      ['1:200', '2:503', '2:200']
+    );
+  });
+
+  it('retries a page the server holds open once the request times out', async () => {
+    api = await startMockApi({ records: 4, failures: [{ endpoint: 'companySearch', call: 2, response: 'hang' }] });
+    const savePath = outputPath('companies.csv');
+
+    const job = await runJob(companyJob(savePath, { page: 1, rpp: 2 }, 4));
+
+    assert.equal(job.status, 'completed');
+    assert.equal(fs.readFileSync(savePath, 'utf8'), expectedCsv([1, 2, 3, 4]));
+    assert.deepEqual(
+      (await api.requests()).map(({ page, call }) => `${page}:${call}`),
+      ['1:1', '2:3']
+    );
+  });
+
+  it('fails a job whose payload has no page field before sending any request', async () => {
+    api = await startMockApi({ records: 5 });
+
+    const errors: string[] = [];
+    onRenderer('error', (message: string) => errors.push(message));
+
+    const job = await runJob(companyJob(outputPath('companies.csv'), { rpp: 2 }, 5));
+
+    assert.equal(job.status, 'failed');
+    assert.match(job.error || '', /The payload has no "page" field/);
+    assert.equal(errors.length, 1);
+    assert.deepEqual(await api.requests(), []);
+  });
+});